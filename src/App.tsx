@@ -3,7 +3,14 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { PortfolioProvider } from "@/components/PortfolioProvider";
 import Index from "./pages/Index";
+import Trades from "./pages/Trades";
+import Effectiveness from "./pages/Effectiveness";
+import Strategies from "./pages/Strategies";
+import Sensitivities from "./pages/Sensitivities";
+import Scenarios from "./pages/Scenarios";
+import StressTests from "./pages/StressTests";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -14,11 +21,19 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+        <PortfolioProvider>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/trades" element={<Trades />} />
+            <Route path="/effectiveness" element={<Effectiveness />} />
+            <Route path="/strategies" element={<Strategies />} />
+            <Route path="/sensitivities" element={<Sensitivities />} />
+            <Route path="/scenarios" element={<Scenarios />} />
+            <Route path="/stress" element={<StressTests />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </PortfolioProvider>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
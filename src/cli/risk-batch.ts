@@ -0,0 +1,109 @@
+// Risk Batch CLI: run the dashboard's risk model on a trade file and scenario file without a browser
+//
+//   npm run build:cli
+//   npm run risk:batch -- --trades trades.csv --scenario scenario.json --out results
+//
+// Writes summary.json plus sensitivity, trade valuation and by-pair CSVs to --out, or prints the summary
+// to stdout. Rejected trade rows are reported on stderr; --strict fails the run when there are any.
+
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { PAIR_HISTORIES } from "@/data/usdmyr-history";
+import { filterTradesByPair } from "@/lib/currency-pairs";
+import { DEFAULT_PARAMETERS, formatAsOfDate, parseAsOfDate } from "@/lib/fx-calculations";
+import { parseRateHistory, parseSpotForwardHistory } from "@/lib/rate-history";
+import {
+  batchCSVFiles,
+  importTradeFile,
+  parseBatchScenario,
+  runRiskBatch,
+  summarizeBatch
+} from "@/lib/risk-batch";
+
+const USAGE = `Usage: risk-batch --trades <trades.csv> [options]
+
+Options:
+  --scenario <file.json>  { asOfDate?, parameters?, markets?, correlations? }; omitted values use the dashboard defaults.
+                          A run stamp's parameters (including parameters.asOfDate) replay that run
+  --history <file.csv>    date,spot,forward history for the scenario's pair (USD/MYR uses the bundled series otherwise)
+  --as-of <yyyy-mm-dd>    valuation date when the scenario file does not set one (default: today)
+  --out <dir>             write summary.json and CSVs here instead of printing the summary
+  --strict                fail if any trade row is rejected
+  --help                  show this message`;
+
+function main(): number {
+  const { values } = parseArgs({
+    options: {
+      trades: { type: 'string' },
+      scenario: { type: 'string' },
+      history: { type: 'string' },
+      'as-of': { type: 'string' },
+      out: { type: 'string' },
+      strict: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!values.trades) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const asOfDate = values['as-of'] ? parseAsOfDate(values['as-of']) : new Date();
+  if (isNaN(asOfDate.getTime())) throw new Error(`Invalid --as-of date: ${values['as-of']}`);
+
+  const scenario = parseBatchScenario(
+    values.scenario ? JSON.parse(readFileSync(values.scenario, 'utf8')) : {},
+    DEFAULT_PARAMETERS,
+    asOfDate
+  );
+  const pair = scenario.parameters.currencyPair;
+
+  const imported = importTradeFile(readFileSync(values.trades, 'utf8'));
+  imported.errors.forEach(error => {
+    console.error(`${values.trades}:${error.row} ${error.field} "${error.value}": ${error.message}`);
+  });
+  if (values.strict && imported.errors.length > 0) {
+    console.error(`${imported.errors.length} rejected rows; not running with --strict`);
+    return 1;
+  }
+  if (filterTradesByPair(imported.trades, pair).length === 0) {
+    console.error(`No valid ${pair} trades in ${values.trades}; set parameters.currencyPair in the scenario file`);
+    return 1;
+  }
+
+  const histories = { ...PAIR_HISTORIES };
+  if (values.history) {
+    const text = readFileSync(values.history, 'utf8');
+    histories[pair] = { rateHistory: parseRateHistory(text), spotForwardHistory: parseSpotForwardHistory(text) };
+  }
+
+  const result = runRiskBatch(imported.trades, scenario, histories);
+  const summary = JSON.stringify(summarizeBatch(result), null, 2);
+
+  if (!values.out) {
+    console.log(summary);
+    return 0;
+  }
+
+  mkdirSync(values.out, { recursive: true });
+  writeFileSync(join(values.out, 'summary.json'), summary + '\n');
+  Object.entries(batchCSVFiles(result)).forEach(([name, csv]) => writeFileSync(join(values.out, name), csv));
+  console.error(
+    `${imported.trades.length} trades (${result.tradeCount} ${pair}) as of ${formatAsOfDate(scenario.asOfDate)}; ` +
+    `results written to ${values.out}`
+  );
+  return 0;
+}
+
+try {
+  process.exitCode = main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exitCode = 1;
+}
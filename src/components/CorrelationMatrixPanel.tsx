@@ -0,0 +1,131 @@
+import { useRef, useState } from "react";
+import { AlertTriangle, RotateCcw, Upload } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { usePortfolio } from "@/hooks/use-portfolio";
+import { CURRENCY_PAIRS } from "@/lib/currency-pairs";
+import {
+  DEFAULT_CORRELATIONS,
+  estimateCorrelations,
+  isPositiveSemiDefinite,
+  MIN_CORRELATION_OBSERVATIONS,
+  setCorrelation
+} from "@/lib/portfolio-var";
+import { parsePairRateHistories } from "@/lib/rate-history";
+
+// Editable pair correlations: typed in, or estimated from a local CSV of daily rates
+export function CorrelationMatrixPanel() {
+  const { toast } = useToast();
+  const { correlations, setCorrelations } = usePortfolio();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState('Illustrative defaults');
+
+  const handleFile = async (file: File) => {
+    const estimate = estimateCorrelations(parsePairRateHistories(await file.text()), correlations);
+    if (estimate.estimatedPairs.length === 0) {
+      toast({
+        title: "Estimation Error",
+        description: `${file.name} needs a date column and at least two pair columns with ${MIN_CORRELATION_OBSERVATIONS}+ common dates.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setCorrelations(estimate.matrix);
+    setSource(`Estimated from ${file.name} (${estimate.estimatedPairs.join(', ')}; ${estimate.observations}+ daily returns)`);
+  };
+
+  const reset = () => {
+    setCorrelations(DEFAULT_CORRELATIONS);
+    setSource('Illustrative defaults');
+  };
+
+  const valid = isPositiveSemiDefinite(correlations);
+
+  return (
+    <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Pair Correlations</h3>
+          <p className="text-sm text-muted-foreground">{source}</p>
+        </div>
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.tsv,.txt,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Estimate from History
+          </Button>
+          <Button variant="outline" size="sm" onClick={reset}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset
+          </Button>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead />
+            {CURRENCY_PAIRS.map(({ pair }) => (
+              <TableHead key={pair} className="text-right">{pair}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {CURRENCY_PAIRS.map(({ pair: row }, i) => (
+            <TableRow key={row}>
+              <TableCell className="font-medium">{row}</TableCell>
+              {CURRENCY_PAIRS.map(({ pair: column }, j) => (
+                <TableCell key={column} className="text-right font-mono">
+                  {j > i ? (
+                    <Input
+                      type="number"
+                      value={correlations[row][column]}
+                      onChange={(e) => setCorrelations(setCorrelation(correlations, row, column, parseFloat(e.target.value)))}
+                      min={-1}
+                      max={1}
+                      step={0.05}
+                      className="w-20 h-8 ml-auto text-right bg-input border-border"
+                    />
+                  ) : (
+                    <span className="text-muted-foreground">{correlations[row][column].toFixed(2)}</span>
+                  )}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {!valid && (
+        <p className="flex items-center text-sm text-loss mt-4">
+          <AlertTriangle className="w-4 h-4 mr-2" />
+          These correlations are inconsistent (not positive semi-definite); portfolio VaR may be understated.
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground mt-4">
+        History files take a date column followed by one daily rate column per pair, headed e.g. USDMYR or SGD/MYR.
+        Correlations are of daily log returns on the dates both pairs were quoted.
+      </p>
+    </Card>
+  );
+}
@@ -1,9 +1,10 @@
 import { Card } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
+import { formatMoney, type Money } from "@/lib/money";
 
 interface MetricsCardProps {
   title: string;
-  value: string | number;
+  value: string | number | Money;
   subtitle?: string;
   trend?: 'positive' | 'negative' | 'neutral';
   icon?: React.ReactNode;
@@ -18,14 +19,18 @@ export function MetricsCard({
   icon,
   className 
 }: MetricsCardProps) {
-  const formatValue = (val: string | number) => {
+  // Money carries its own currency symbol; bare numbers are shown as plain counts
+  const formatValue = (val: string | number | Money) => {
     if (typeof val === 'number') {
       if (Math.abs(val) >= 1000000) {
-        return `$${(val / 1000000).toFixed(2)}M`;
+        return `${(val / 1000000).toFixed(2)}M`;
       } else if (Math.abs(val) >= 1000) {
-        return `$${(val / 1000).toFixed(0)}K`;
+        return `${(val / 1000).toFixed(0)}K`;
       }
-      return `$${val.toFixed(0)}`;
+      return val.toFixed(0);
+    }
+    if (typeof val === 'object') {
+      return formatMoney(val);
     }
     return val;
   };
@@ -0,0 +1,119 @@
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useReportingCurrency } from "@/hooks/use-reporting-currency";
+import { formatMoney, money } from "@/lib/money";
+import { getPairConfig, type CurrencyPair } from "@/lib/currency-pairs";
+import type { PairRisk } from "@/lib/fx-calculations";
+import type { PortfolioVaR } from "@/lib/portfolio-var";
+
+interface PairRiskTableProps {
+  rows: PairRisk[];
+  portfolio: PortfolioVaR; // diversified across the same rows
+  activePair: CurrencyPair;
+  onSelectPair: (pair: CurrencyPair) => void;
+}
+
+const pnlClass = (amount: number) => `text-right font-mono ${amount >= 0 ? 'text-profit' : 'text-loss'}`;
+
+// Each pair under its own scenario, with book totals in the reporting currency
+export function PairRiskTable({ rows, portfolio, activePair, onSelectPair }: PairRiskTableProps) {
+  const { currency, toReporting } = useReportingCurrency();
+
+  // P&L converts at the pair's shocked rate, exposure and VaR at spot
+  const reported = rows.map((row, i) => ({
+    row,
+    contribution: portfolio.contributions[i],
+    exposure: toReporting(row.exposureMYR).amount,
+    unhedgedPnL: toReporting(row.metrics.unhedgedPnL, row.scenario.shockedFXRate, row.pair).amount,
+    hedgedPnL: toReporting(row.metrics.hedgedPnL, row.scenario.shockedFXRate, row.pair).amount,
+    valueAtRisk: toReporting(row.metrics.valueAtRisk).amount,
+    componentVaR: toReporting(portfolio.contributions[i].componentVaR).amount,
+  }));
+  const total = (key: 'exposure' | 'unhedgedPnL' | 'hedgedPnL') =>
+    reported.reduce((sum, item) => sum + item[key], 0);
+  const format = (amount: number) => formatMoney(money(amount, currency));
+
+  return (
+    <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
+      <h3 className="text-lg font-semibold text-foreground mb-4">Risk by Currency Pair</h3>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Pair</TableHead>
+            <TableHead className="text-right">Trades</TableHead>
+            <TableHead className="text-right">Spot</TableHead>
+            <TableHead className="text-right">Net Position</TableHead>
+            <TableHead className="text-right">Exposure</TableHead>
+            <TableHead className="text-right">Unhedged P&L</TableHead>
+            <TableHead className="text-right">Hedged P&L</TableHead>
+            <TableHead className="text-right">Standalone VaR</TableHead>
+            <TableHead className="text-right">Component VaR</TableHead>
+            <TableHead className="text-right">Marginal VaR</TableHead>
+            <TableHead className="text-right"></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {reported.map(({ row, contribution, exposure, unhedgedPnL, hedgedPnL, valueAtRisk, componentVaR }) => {
+            const config = getPairConfig(row.pair);
+            return (
+              <TableRow key={row.pair} className={row.pair === activePair ? 'bg-secondary/50' : undefined}>
+                <TableCell className="font-medium">{row.pair}</TableCell>
+                <TableCell className="text-right">{row.tradeCount}</TableCell>
+                <TableCell className="text-right font-mono">{row.scenario.currentFXRate.toFixed(config.decimals)}</TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatMoney(money(row.metrics.exposure.netNotional, config.base))}
+                </TableCell>
+                <TableCell className="text-right font-mono">{format(exposure)}</TableCell>
+                <TableCell className={pnlClass(unhedgedPnL)}>{format(unhedgedPnL)}</TableCell>
+                <TableCell className={pnlClass(hedgedPnL)}>{format(hedgedPnL)}</TableCell>
+                <TableCell className="text-right font-mono text-loss">{format(valueAtRisk)}</TableCell>
+                <TableCell className="text-right font-mono">
+                  {format(componentVaR)} ({(contribution.share * 100).toFixed(0)}%)
+                </TableCell>
+                <TableCell className="text-right font-mono">{(contribution.marginalVaR * 100).toFixed(2)}%</TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    size="sm"
+                    variant={row.pair === activePair ? 'secondary' : 'outline'}
+                    onClick={() => onSelectPair(row.pair)}
+                    disabled={row.pair === activePair}
+                  >
+                    {row.pair === activePair ? 'Viewing' : 'View'}
+                  </Button>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+          <TableRow className="font-medium">
+            <TableCell>Total</TableCell>
+            <TableCell className="text-right">{rows.reduce((sum, row) => sum + row.tradeCount, 0)}</TableCell>
+            <TableCell />
+            <TableCell />
+            <TableCell className="text-right font-mono">{format(total('exposure'))}</TableCell>
+            <TableCell className={pnlClass(total('unhedgedPnL'))}>{format(total('unhedgedPnL'))}</TableCell>
+            <TableCell className={pnlClass(total('hedgedPnL'))}>{format(total('hedgedPnL'))}</TableCell>
+            <TableCell className="text-right font-mono text-muted-foreground">
+              {format(toReporting(portfolio.undiversifiedVaR).amount)}
+            </TableCell>
+            <TableCell className="text-right font-mono text-loss">{format(toReporting(portfolio.valueAtRisk).amount)}</TableCell>
+            <TableCell />
+            <TableCell />
+          </TableRow>
+        </TableBody>
+      </Table>
+      <p className="text-xs text-muted-foreground mt-4">
+        Every pair runs the same rate shock on its own curves. The VaR total is the undiversified sum; component VaRs split the
+        diversified portfolio VaR across pairs using the pair correlations, saving {format(toReporting(portfolio.diversificationBenefit).amount)}.
+        Marginal VaR is the change in portfolio VaR per unit of extra exposure in each position's direction.
+      </p>
+    </Card>
+  );
+}
@@ -3,17 +3,24 @@ import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Input } from "@/components/ui/input";
-import { PlayCircle, RotateCcw } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PlayCircle, RotateCcw, Dices } from "lucide-react";
+import { generateSeed } from "@/lib/random";
+import { HEDGE_RATIO_METHODS } from "@/lib/hedge-ratio";
+import { CURRENCIES, type CurrencyCode } from "@/lib/money";
+import { CURRENCY_PAIRS, DEFAULT_PAIR_MARKETS, getPairConfig } from "@/lib/currency-pairs";
+import type { SimulationParameters } from "@/lib/fx-calculations";
 
 interface ParametersPanelProps {
-  parameters: {
-    currentFXRate: number;
-    interestRateShock: number;
-    volatility: number;
-    numberOfTrades: number;
-    timeHorizon: number;
-  };
-  onParameterChange: (key: string, value: number) => void;
+  parameters: SimulationParameters;
+  onParameterChange: (key: string, value: number | string) => void;
   onRunSimulation: () => void;
   onReset: () => void;
 }
@@ -24,6 +31,9 @@ export function ParametersPanel({
   onRunSimulation, 
   onReset 
 }: ParametersPanelProps) {
+  const pair = getPairConfig(parameters.currencyPair);
+  const curves = DEFAULT_PAIR_MARKETS[pair.pair].curves;
+
   return (
     <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
       <div className="flex items-center justify-between mb-6">
@@ -49,16 +59,33 @@ export function ParametersPanel({
       </div>
 
       <div className="space-y-6">
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-foreground">Currency Pair</Label>
+          <Select
+            value={parameters.currencyPair}
+            onValueChange={(value) => onParameterChange('currencyPair', value)}
+          >
+            <SelectTrigger className="bg-input border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCY_PAIRS.map(config => (
+                <SelectItem key={config.pair} value={config.pair}>{config.pair}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         <div className="space-y-2">
           <Label className="text-sm font-medium text-foreground">
-            Current FX Rate (MYR/USD): {parameters.currentFXRate.toFixed(4)}
+            Current FX Rate ({pair.pair}): {parameters.currentFXRate.toFixed(pair.decimals)}
           </Label>
           <Slider
             value={[parameters.currentFXRate]}
             onValueChange={(value) => onParameterChange('currentFXRate', value[0])}
-            max={5.5}
-            min={3.5}
-            step={0.01}
+            max={pair.rateRange.max}
+            min={pair.rateRange.min}
+            step={pair.rateRange.step}
             className="w-full"
           />
         </div>
@@ -77,6 +104,41 @@ export function ParametersPanel({
           />
         </div>
 
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-foreground">Shocked Curve</Label>
+            <Select
+              value={parameters.curveShockTarget}
+              onValueChange={(value) => onParameterChange('curveShockTarget', value)}
+            >
+              <SelectTrigger className="bg-input border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="MYR">MYR ({curves.domestic.name})</SelectItem>
+                <SelectItem value={pair.base}>{pair.base} ({curves.foreign.name})</SelectItem>
+                <SelectItem value="both">Both</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-foreground">Shock Shape</Label>
+            <Select
+              value={parameters.curveShockType}
+              onValueChange={(value) => onParameterChange('curveShockType', value)}
+            >
+              <SelectTrigger className="bg-input border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="parallel">Parallel</SelectItem>
+                <SelectItem value="steepener">Steepener</SelectItem>
+                <SelectItem value="flattener">Flattener</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
         <div className="space-y-2">
           <Label className="text-sm font-medium text-foreground">
             FX Volatility: {(parameters.volatility * 100).toFixed(1)}%
@@ -116,13 +178,121 @@ export function ParametersPanel({
             className="bg-input border-border"
           />
         </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-foreground">
+            VaR Confidence Level: {(parameters.confidenceLevel * 100).toFixed(1)}%
+          </Label>
+          <Slider
+            value={[parameters.confidenceLevel]}
+            onValueChange={(value) => onParameterChange('confidenceLevel', value[0])}
+            max={0.995}
+            min={0.9}
+            step={0.005}
+            className="w-full"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="gross-exposure" className="text-sm font-medium text-foreground">
+            Use Gross Exposure
+          </Label>
+          <Switch
+            id="gross-exposure"
+            checked={parameters.exposureBasis === 'gross'}
+            onCheckedChange={(checked) => onParameterChange('exposureBasis', checked ? 'gross' : 'net')}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-foreground">Reporting Currency</Label>
+          <Select
+            value={parameters.reportingCurrency}
+            onValueChange={(value) => onParameterChange('reportingCurrency', value)}
+          >
+            <SelectTrigger className="bg-input border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CURRENCIES) as CurrencyCode[]).map(code => (
+                <SelectItem key={code} value={code}>{code} ({CURRENCIES[code].label})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-foreground">Hedge Ratio Method</Label>
+          <Select
+            value={parameters.hedgeRatioMethod}
+            onValueChange={(value) => onParameterChange('hedgeRatioMethod', value)}
+          >
+            <SelectTrigger className="bg-input border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HEDGE_RATIO_METHODS.map(({ method, label }) => (
+                <SelectItem key={method} value={method}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {parameters.hedgeRatioMethod === 'mean-variance' && (
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-foreground">
+              Risk Aversion (λ): {parameters.riskAversion}
+            </Label>
+            <Slider
+              value={[parameters.riskAversion]}
+              onValueChange={(value) => onParameterChange('riskAversion', value[0])}
+              max={50}
+              min={1}
+              step={1}
+              className="w-full"
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-foreground">As-of Date</Label>
+          <Input
+            type="date"
+            value={parameters.asOfDate}
+            onChange={(e) => { if (e.target.value) onParameterChange('asOfDate', e.target.value); }}
+            className="bg-input border-border"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-foreground">Random Seed</Label>
+          <div className="flex space-x-2">
+            <Input
+              type="number"
+              value={parameters.seed}
+              onChange={(e) => onParameterChange('seed', parseInt(e.target.value) || 1)}
+              min={1}
+              className="bg-input border-border"
+            />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => onParameterChange('seed', generateSeed())}
+              className="border-border hover:bg-secondary shrink-0"
+              title="Generate new seed"
+            >
+              <Dices className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
       </div>
 
       <div className="mt-6 pt-4 border-t border-border">
         <div className="text-xs space-y-1 text-muted-foreground">
-          <p>• Simulation models USD/MYR treasury exposure</p>
-          <p>• Interest rate shock affects forward FX rates</p>
+          <p>• Simulation models MYR treasury exposure, one currency pair at a time</p>
+          <p>• Rate shock moves the pair's zero curves; forwards priced by interest parity</p>
           <p>• Optimal hedge ratio minimizes risk-adjusted costs</p>
+          <p>• Same seed and as-of date replay the same trade book and simulation</p>
         </div>
       </div>
     </Card>
@@ -0,0 +1,116 @@
+import { useEffect, useMemo, useState } from "react";
+import { PortfolioContext, type TradeSource } from "@/hooks/use-portfolio";
+import {
+  buildPairScenario,
+  DEFAULT_PARAMETERS,
+  generateFXTrades,
+  parseAsOfDate,
+  type FXTrade,
+  type RiskScenario,
+  type SimulationParameters
+} from "@/lib/fx-calculations";
+import {
+  CURRENCY_PAIRS,
+  DEFAULT_PAIR_MARKETS,
+  filterTradesByPair,
+  getPairConfig,
+  type CurrencyPair
+} from "@/lib/currency-pairs";
+import { DEFAULT_CORRELATIONS } from "@/lib/portfolio-var";
+import { applyStressToPairs, type StressScenario } from "@/lib/stress-scenarios";
+
+export function PortfolioProvider({ children }: { children: React.ReactNode }) {
+  const [parameters, setParameters] = useState<SimulationParameters>(DEFAULT_PARAMETERS);
+  // Part of the parameters, so a stamped run or saved scenario regenerates the same maturities
+  const asOfDate = useMemo(() => parseAsOfDate(parameters.asOfDate), [parameters.asOfDate]);
+  const [trades, setTradeBook] = useState<FXTrade[]>([]);
+  const [tradeSource, setTradeSource] = useState<TradeSource>('generated');
+  const [activeStress, setActiveStress] = useState<StressScenario | null>(null);
+  const [storedMarkets, setStoredMarkets] = useState(DEFAULT_PAIR_MARKETS);
+  const [correlations, setCorrelations] = useState(DEFAULT_CORRELATIONS);
+
+  // Generate trades when parameters change, unless the user has imported or edited the book
+  useEffect(() => {
+    if (tradeSource !== 'generated') return;
+    setTradeBook(generateFXTrades(parameters.numberOfTrades, parameters.seed, asOfDate));
+  }, [parameters.numberOfTrades, parameters.seed, asOfDate, tradeSource]);
+
+  // The active pair's spot and volatility are edited through the parameters
+  const markets = useMemo(() => ({
+    ...storedMarkets,
+    [parameters.currencyPair]: {
+      ...storedMarkets[parameters.currencyPair],
+      spotRate: parameters.currentFXRate,
+      volatility: parameters.volatility,
+    },
+  }), [storedMarkets, parameters.currencyPair, parameters.currentFXRate, parameters.volatility]);
+
+  // Calculate each pair's risk scenario, replaced by the stressed scenario for the pairs an applied stress names
+  const pairScenarios = useMemo(() => {
+    const base = Object.fromEntries(CURRENCY_PAIRS.map(({ pair }) => [
+      pair,
+      buildPairScenario(parameters, markets[pair]),
+    ])) as Record<CurrencyPair, RiskScenario>;
+    return applyStressToPairs(base, activeStress);
+  }, [parameters, markets, activeStress]);
+
+  const riskScenario = pairScenarios[parameters.currencyPair];
+  const pairTrades = useMemo(
+    () => filterTradesByPair(trades, parameters.currencyPair),
+    [trades, parameters.currencyPair]
+  );
+
+  const value = useMemo(() => ({
+    parameters,
+    asOfDate,
+    trades,
+    pairTrades,
+    tradeSource,
+    markets,
+    riskScenario,
+    pairScenarios,
+    correlations,
+    activeStress,
+    setParameter: (key: string, value: number | string) => {
+      // Switching pair parks the current pair's spot and volatility and loads the new pair's
+      if (key === 'currencyPair') {
+        const pair = value as CurrencyPair;
+        setStoredMarkets(markets);
+        setParameters(prev => ({
+          ...prev,
+          currencyPair: pair,
+          currentFXRate: markets[pair].spotRate,
+          volatility: markets[pair].volatility,
+          curveShockTarget: prev.curveShockTarget === 'MYR' || prev.curveShockTarget === 'both'
+            ? prev.curveShockTarget
+            : getPairConfig(pair).base,
+        }));
+        return;
+      }
+      setParameters(prev => ({ ...prev, [key]: value }));
+    },
+    resetParameters: () => {
+      setStoredMarkets(DEFAULT_PAIR_MARKETS);
+      setCorrelations(DEFAULT_CORRELATIONS);
+      setParameters(DEFAULT_PARAMETERS);
+    },
+    // Loaded parameter sets keep the reporting currency the user is viewing in
+    applyParameters: (next: SimulationParameters) => {
+      setStoredMarkets(markets);
+      setParameters(prev => ({ ...DEFAULT_PARAMETERS, ...next, reportingCurrency: prev.reportingCurrency }));
+    },
+    setCorrelations,
+    setTrades: (next: FXTrade[], source: TradeSource) => {
+      setTradeBook(next);
+      setTradeSource(source);
+    },
+    restoreGeneratedTrades: () => setTradeSource('generated'),
+    applyStress: (stress: StressScenario | null) => setActiveStress(stress),
+  }), [parameters, asOfDate, trades, pairTrades, tradeSource, markets, riskScenario, pairScenarios, correlations, activeStress]);
+
+  return (
+    <PortfolioContext.Provider value={value}>
+      {children}
+    </PortfolioContext.Provider>
+  );
+}
@@ -0,0 +1,114 @@
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { BreachFrontierRow, BreachPoint } from "@/lib/reverse-stress";
+import type { PairConfig } from "@/lib/currency-pairs";
+
+export type BreachCurve = 'unhedged' | 'hedged';
+
+interface ReverseStressPanelProps {
+  pair: PairConfig;
+  lossThreshold: number; // MYR millions
+  onLossThresholdChange: (value: number) => void;
+  curve: BreachCurve;
+  onCurveChange: (curve: BreachCurve) => void;
+  breaches: BreachPoint[];
+  frontier: BreachFrontierRow[];
+}
+
+const formatBreach = (point: BreachPoint | null, decimals: number) => {
+  if (!point) return '—';
+  const sign = point.move > 0 ? '+' : '';
+  return `${point.fxRate.toFixed(decimals)} (${sign}${(point.move * 100).toFixed(1)}%)`;
+};
+
+export function ReverseStressPanel({
+  pair,
+  lossThreshold,
+  onLossThresholdChange,
+  curve,
+  onCurveChange,
+  breaches,
+  frontier
+}: ReverseStressPanelProps) {
+  const down = breaches.find(point => point.direction === 'down') ?? null;
+  const up = breaches.find(point => point.direction === 'up') ?? null;
+
+  return (
+    <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Reverse Stress Test</h3>
+          <p className="text-sm text-muted-foreground">
+            {pair.pair} levels at which the {curve} book loses more than MYR {lossThreshold}M
+          </p>
+        </div>
+        <div className="flex items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="loss-threshold" className="text-sm font-medium text-foreground">Loss Threshold (MYR M)</Label>
+            <Input
+              id="loss-threshold"
+              type="number"
+              value={lossThreshold}
+              onChange={(e) => onLossThresholdChange(Math.max(0.1, parseFloat(e.target.value) || 0.1))}
+              min={0.1}
+              step={1}
+              className="w-32 bg-input border-border"
+            />
+          </div>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={curve}
+            onValueChange={(value) => { if (value) onCurveChange(value as BreachCurve); }}
+          >
+            <ToggleGroupItem value="unhedged" className="text-xs">Unhedged</ToggleGroupItem>
+            <ToggleGroupItem value="hedged" className="text-xs">Hedged</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div className="py-2 border-b border-border/30">
+          <p className="text-sm text-muted-foreground">Breach on {pair.base} weakness</p>
+          <p className="font-medium text-loss">{formatBreach(down, pair.decimals)}</p>
+        </div>
+        <div className="py-2 border-b border-border/30">
+          <p className="text-sm text-muted-foreground">Breach on {pair.base} strength</p>
+          <p className="font-medium text-loss">{formatBreach(up, pair.decimals)}</p>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>MYR Rate Shock</TableHead>
+            <TableHead className="text-right">Breach Below</TableHead>
+            <TableHead className="text-right">Breach Above</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {frontier.map(row => (
+            <TableRow key={row.rateShockBps}>
+              <TableCell>{row.rateShockBps > 0 ? '+' : ''}{row.rateShockBps} bps</TableCell>
+              <TableCell className="text-right font-mono">{formatBreach(row.down, pair.decimals)}</TableCell>
+              <TableCell className="text-right font-mono">{formatBreach(row.up, pair.decimals)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <p className="text-xs text-muted-foreground mt-4">
+        Spot moves searched up to ±50%; the rate-shock frontier revalues every trade and hedge at its own shocked forward.
+      </p>
+    </Card>
+  );
+}
@@ -1,4 +1,7 @@
 import {
+  Bar,
+  ComposedChart,
+  Legend,
   LineChart,
   Line,
   XAxis,
@@ -7,17 +10,44 @@ import {
   Tooltip,
   ResponsiveContainer,
   Area,
-  AreaChart
+  AreaChart,
+  ReferenceLine,
+  ReferenceArea
 } from 'recharts';
 import { Card } from "@/components/ui/card";
+import { formatMillions, FUNCTIONAL_CURRENCY, type CurrencyCode } from "@/lib/money";
 
 interface RiskChartProps {
-  data: Array<{ fxRate: number; pnl: number; hedgedPnl: number }>;
+  data: Array<{ fxRate: number; pnl: number; hedgedPnl: number; [key: string]: number }>;
+  overlays?: Array<{ key: string; label: string; dashed?: boolean }>;
+  hedgedLabel?: string;
+  lossThreshold?: number; // millions, drawn as a horizontal line at -threshold
+  breaches?: Array<{ fxRate: number; label: string }>;
+  currency?: CurrencyCode; // currency of the plotted amounts
+  actions?: React.ReactNode;
   title: string;
   height?: number;
 }
 
-export function RiskChart({ data, title, height = 300 }: RiskChartProps) {
+const OVERLAY_COLORS = [
+  'hsl(var(--primary))',
+  'hsl(var(--accent))',
+  'hsl(var(--warning))',
+  'rgb(168 85 247)',
+  'rgb(14 165 233)',
+];
+
+export function RiskChart({
+  data,
+  overlays = [],
+  hedgedLabel = 'Hedged P&L',
+  lossThreshold,
+  breaches = [],
+  currency = FUNCTIONAL_CURRENCY,
+  actions,
+  title,
+  height = 300
+}: RiskChartProps) {
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       return (
@@ -27,7 +57,7 @@ export function RiskChart({ data, title, height = 300 }: RiskChartProps) {
           </p>
           {payload.map((entry: any, index: number) => (
             <p key={index} className="text-sm" style={{ color: entry.color }}>
-              {entry.name}: <span className="font-medium">${entry.value?.toFixed(2)}M</span>
+              {entry.name}: <span className="font-medium">{formatMillions(entry.value ?? 0, currency)}</span>
             </p>
           ))}
         </div>
@@ -38,12 +68,17 @@ export function RiskChart({ data, title, height = 300 }: RiskChartProps) {
 
   return (
     <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
-      <h3 className="text-lg font-semibold text-foreground mb-4">{title}</h3>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold text-foreground">{title}</h3>
+        {actions}
+      </div>
       <ResponsiveContainer width="100%" height={height}>
         <LineChart data={data}>
           <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
           <XAxis 
             dataKey="fxRate" 
+            type="number"
+            domain={['dataMin', 'dataMax']}
             stroke="hsl(var(--muted-foreground))"
             tick={{ fontSize: 12 }}
             tickFormatter={(value) => value.toFixed(3)}
@@ -51,7 +86,7 @@ export function RiskChart({ data, title, height = 300 }: RiskChartProps) {
           <YAxis 
             stroke="hsl(var(--muted-foreground))"
             tick={{ fontSize: 12 }}
-            tickFormatter={(value) => `$${value}M`}
+            tickFormatter={(value: number) => formatMillions(value, currency, 1)}
           />
           <Tooltip content={<CustomTooltip />} />
           <Line
@@ -68,21 +103,232 @@ export function RiskChart({ data, title, height = 300 }: RiskChartProps) {
             stroke="hsl(var(--profit))"
             strokeWidth={3}
             dot={false}
-            name="Hedged P&L"
+            name={hedgedLabel}
+          />
+          {overlays.map((overlay, index) => (
+            <Line
+              key={overlay.key}
+              type="monotone"
+              dataKey={overlay.key}
+              stroke={OVERLAY_COLORS[index % OVERLAY_COLORS.length]}
+              strokeWidth={2}
+              strokeDasharray={overlay.dashed === false ? undefined : "5 5"}
+              dot={false}
+              name={overlay.label}
+            />
+          ))}
+          {lossThreshold !== undefined && (
+            <ReferenceLine
+              y={-lossThreshold}
+              stroke="hsl(var(--loss))"
+              strokeDasharray="6 3"
+              label={{ value: `Loss limit ${formatMillions(-lossThreshold, currency, 1)}`, position: 'insideBottomLeft', fontSize: 11, fill: 'hsl(var(--loss))' }}
+            />
+          )}
+          {breaches.map(breach => (
+            <ReferenceLine
+              key={breach.label}
+              x={breach.fxRate}
+              stroke="hsl(var(--loss))"
+              strokeDasharray="2 2"
+              label={{ value: breach.label, position: 'top', fontSize: 11, fill: 'hsl(var(--loss))' }}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </Card>
+  );
+}
+
+interface ScenarioComparisonChartProps {
+  series: Array<{
+    id: string;
+    label: string;
+    data: Array<{ fxRate: number; [key: string]: number }>;
+    marker?: number; // FX rate to flag, e.g. the scenario's shocked rate
+  }>;
+  dataKey?: string;
+  currency?: CurrencyCode;
+  title: string;
+  height?: number;
+}
+
+// One P&L curve per scenario on a shared FX-rate axis
+export function ScenarioComparisonChart({
+  series,
+  dataKey = 'hedgedPnl',
+  currency = FUNCTIONAL_CURRENCY,
+  title,
+  height = 350
+}: ScenarioComparisonChartProps) {
+  return (
+    <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
+      <h3 className="text-lg font-semibold text-foreground mb-4">{title}</h3>
+      <ResponsiveContainer width="100%" height={height}>
+        <LineChart>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+          <XAxis
+            dataKey="fxRate"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            allowDuplicatedCategory={false}
+            stroke="hsl(var(--muted-foreground))"
+            tick={{ fontSize: 12 }}
+            tickFormatter={(value) => value.toFixed(3)}
           />
+          <YAxis
+            stroke="hsl(var(--muted-foreground))"
+            tick={{ fontSize: 12 }}
+            tickFormatter={(value: number) => formatMillions(value, currency, 1)}
+          />
+          <Tooltip
+            formatter={(value: number) => formatMillions(value, currency)}
+            labelFormatter={(value: number) => `FX Rate: ${value.toFixed(4)}`}
+            contentStyle={{
+              backgroundColor: 'hsl(var(--card))',
+              border: '1px solid hsl(var(--border))',
+              borderRadius: '8px'
+            }}
+          />
+          <Legend />
+          {series.map((item, index) => (
+            <Line
+              key={item.id}
+              data={item.data}
+              type="monotone"
+              dataKey={dataKey}
+              stroke={OVERLAY_COLORS[index % OVERLAY_COLORS.length]}
+              strokeWidth={2}
+              dot={false}
+              name={item.label}
+            />
+          ))}
+          {series.filter(item => item.marker !== undefined).map((item) => (
+            <ReferenceLine
+              key={`${item.id}-marker`}
+              x={item.marker}
+              stroke={OVERLAY_COLORS[series.indexOf(item) % OVERLAY_COLORS.length]}
+              strokeDasharray="4 4"
+            />
+          ))}
         </LineChart>
       </ResponsiveContainer>
     </Card>
   );
 }
 
+interface ExposureLadderChartProps {
+  data: Array<{ bucket: string; longNotional: number; shortNotional: number; hedgedNotional: number; residualNotional: number }>;
+  currency: CurrencyCode; // the pair's base currency
+  title: string;
+  height?: number;
+}
+
+// Long and short notional stacked per maturity bucket, hedges alongside, residual net as a line
+export function ExposureLadderChart({ data, currency, title, height = 300 }: ExposureLadderChartProps) {
+  const chartData = data.map(row => ({
+    bucket: row.bucket,
+    long: row.longNotional / 1000000,
+    short: -row.shortNotional / 1000000,
+    hedged: row.hedgedNotional / 1000000,
+    residual: row.residualNotional / 1000000,
+  }));
+
+  return (
+    <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
+      <h3 className="text-lg font-semibold text-foreground mb-4">{title}</h3>
+      <ResponsiveContainer width="100%" height={height}>
+        <ComposedChart data={chartData} stackOffset="sign">
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+          <XAxis
+            dataKey="bucket"
+            stroke="hsl(var(--muted-foreground))"
+            tick={{ fontSize: 12 }}
+          />
+          <YAxis
+            stroke="hsl(var(--muted-foreground))"
+            tick={{ fontSize: 12 }}
+            tickFormatter={(value: number) => formatMillions(value, currency, 1)}
+          />
+          <Tooltip
+            formatter={(value: number) => formatMillions(value, currency)}
+            contentStyle={{
+              backgroundColor: 'hsl(var(--card))',
+              border: '1px solid hsl(var(--border))',
+              borderRadius: '8px'
+            }}
+          />
+          <Legend />
+          <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+          <Bar dataKey="long" stackId="trades" fill="hsl(var(--profit))" name={`Long ${currency}`} />
+          <Bar dataKey="short" stackId="trades" fill="rgb(239 68 68)" name={`Short ${currency}`} />
+          <Bar dataKey="hedged" stackId="hedges" fill="hsl(var(--primary))" name="Hedged" />
+          <Line
+            type="monotone"
+            dataKey="residual"
+            stroke="hsl(var(--warning))"
+            strokeWidth={2}
+            name="Residual Net"
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </Card>
+  );
+}
+
+interface VaRContributionChartProps {
+  data: Array<{ pair: string; standaloneVaR: number; componentVaR: number }>; // millions
+  currency?: CurrencyCode;
+  title: string;
+  height?: number;
+}
+
+// Standalone VaR of each pair beside its contribution to the diversified total
+export function VaRContributionChart({ data, currency = FUNCTIONAL_CURRENCY, title, height = 300 }: VaRContributionChartProps) {
+  return (
+    <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
+      <h3 className="text-lg font-semibold text-foreground mb-4">{title}</h3>
+      <ResponsiveContainer width="100%" height={height}>
+        <ComposedChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+          <XAxis
+            dataKey="pair"
+            stroke="hsl(var(--muted-foreground))"
+            tick={{ fontSize: 12 }}
+          />
+          <YAxis
+            stroke="hsl(var(--muted-foreground))"
+            tick={{ fontSize: 12 }}
+            tickFormatter={(value: number) => formatMillions(value, currency, 1)}
+          />
+          <Tooltip
+            formatter={(value: number) => formatMillions(value, currency)}
+            contentStyle={{
+              backgroundColor: 'hsl(var(--card))',
+              border: '1px solid hsl(var(--border))',
+              borderRadius: '8px'
+            }}
+          />
+          <Legend />
+          <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+          <Bar dataKey="standaloneVaR" fill="hsl(var(--muted-foreground))" name="Standalone VaR" />
+          <Bar dataKey="componentVaR" fill="hsl(var(--primary))" name="Component VaR" />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </Card>
+  );
+}
+
 interface DistributionChartProps {
-  data: Array<{ scenario: string; probability: number; loss: number }>;
+  data: Array<{ pnl: number; probability: number }>;
+  markers?: Array<{ label: string; value: number }>;
+  tail?: { valueAtRisk: number; expectedShortfall: number }; // loss threshold and ES, as P&L
+  currency?: CurrencyCode;
   title: string;
   height?: number;
 }
 
-export function DistributionChart({ data, title, height = 300 }: DistributionChartProps) {
+export function DistributionChart({ data, markers = [], tail, currency = FUNCTIONAL_CURRENCY, title, height = 300 }: DistributionChartProps) {
   return (
     <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
       <h3 className="text-lg font-semibold text-foreground mb-4">{title}</h3>
@@ -90,9 +336,12 @@ export function DistributionChart({ data, title, height = 300 }: DistributionCha
         <AreaChart data={data}>
           <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
           <XAxis 
-            dataKey="scenario" 
+            dataKey="pnl" 
+            type="number"
+            domain={['dataMin', 'dataMax']}
             stroke="hsl(var(--muted-foreground))"
             tick={{ fontSize: 12 }}
+            tickFormatter={(value: number) => formatMillions(value, currency, 1)}
           />
           <YAxis 
             stroke="hsl(var(--muted-foreground))"
@@ -101,7 +350,7 @@ export function DistributionChart({ data, title, height = 300 }: DistributionCha
           />
           <Tooltip 
             formatter={(value: any) => [`${(value * 100).toFixed(1)}%`, 'Probability']}
-            labelFormatter={(label) => `Scenario: ${label}`}
+            labelFormatter={(label) => `P&L: ${formatMillions(Number(label), currency)}`}
             contentStyle={{
               backgroundColor: 'hsl(var(--card))',
               border: '1px solid hsl(var(--border))',
@@ -115,6 +364,32 @@ export function DistributionChart({ data, title, height = 300 }: DistributionCha
             fill="url(#gradient)"
             fillOpacity={0.6}
           />
+          {tail && data.length > 0 && (
+            <ReferenceArea
+              x1={data[0].pnl}
+              x2={tail.valueAtRisk}
+              fill="hsl(var(--loss))"
+              fillOpacity={0.15}
+              ifOverflow="hidden"
+            />
+          )}
+          {tail && (
+            <ReferenceLine
+              x={tail.expectedShortfall}
+              stroke="hsl(var(--loss))"
+              strokeWidth={2}
+              label={{ value: 'ES', position: 'top', fontSize: 11, fill: 'hsl(var(--loss))' }}
+            />
+          )}
+          {markers.map((marker) => (
+            <ReferenceLine
+              key={marker.label}
+              x={marker.value}
+              stroke="hsl(var(--warning))"
+              strokeDasharray="4 4"
+              label={{ value: marker.label, position: 'top', fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+            />
+          ))}
           <defs>
             <linearGradient id="gradient" x1="0" y1="0" x2="0" y2="1">
               <stop offset="5%" stopColor="hsl(var(--primary))" stopOpacity={0.8}/>
@@ -0,0 +1,175 @@
+import { useEffect, useMemo, useState } from "react";
+import { CheckCircle2, AlertTriangle, FileSpreadsheet } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  TRADE_FIELDS,
+  importTrades,
+  suggestColumnMapping,
+  type ColumnMapping,
+  type ParsedCSV,
+} from "@/lib/trade-import";
+import type { FXTrade } from "@/lib/fx-calculations";
+
+interface TradeImportDialogProps {
+  open: boolean;
+  fileName: string;
+  parsed: ParsedCSV | null;
+  onOpenChange: (open: boolean) => void;
+  onImport: (trades: FXTrade[]) => void;
+}
+
+const UNMAPPED = 'none';
+
+export function TradeImportDialog({
+  open,
+  fileName,
+  parsed,
+  onOpenChange,
+  onImport
+}: TradeImportDialogProps) {
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+
+  // Re-guess the mapping whenever a new file is dropped
+  useEffect(() => {
+    setMapping(parsed ? suggestColumnMapping(parsed.headers) : null);
+  }, [parsed]);
+
+  const result = useMemo(() => {
+    if (!parsed || !mapping) return null;
+    return importTrades(parsed, mapping);
+  }, [parsed, mapping]);
+
+  const handleMappingChange = (field: keyof ColumnMapping, value: string) => {
+    setMapping(prev => prev && ({
+      ...prev,
+      [field]: value === UNMAPPED ? null : parseInt(value),
+    }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <FileSpreadsheet className="w-5 h-5 mr-2" />
+            Import Trade Blotter
+          </DialogTitle>
+          <DialogDescription>
+            {fileName} — {parsed?.rows.length ?? 0} rows. Map each trade field to a column in your file.
+          </DialogDescription>
+        </DialogHeader>
+
+        {parsed && mapping && (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {TRADE_FIELDS.map(({ field, label, required }) => (
+              <div key={field} className="space-y-2">
+                <Label className="text-sm font-medium text-foreground">
+                  {label}{required && <span className="text-loss"> *</span>}
+                </Label>
+                <Select
+                  value={mapping[field] === null ? UNMAPPED : mapping[field]!.toString()}
+                  onValueChange={(value) => handleMappingChange(field, value)}
+                >
+                  <SelectTrigger className="bg-input border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>
+                      {required ? '— Not mapped —' : '— Auto-generate —'}
+                    </SelectItem>
+                    {parsed.headers.map((header, index) => (
+                      <SelectItem key={index} value={index.toString()}>
+                        {header || `Column ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-3">
+            <div className="flex items-center space-x-3">
+              <Badge variant="secondary" className="px-3 py-1">
+                <CheckCircle2 className="w-4 h-4 mr-2 text-profit" />
+                {result.trades.length} valid
+              </Badge>
+              <Badge variant={result.errors.length > 0 ? "destructive" : "outline"} className="px-3 py-1">
+                <AlertTriangle className="w-4 h-4 mr-2" />
+                {result.errors.length} errors
+              </Badge>
+            </div>
+
+            {result.errors.length > 0 && (
+              <ScrollArea className="h-56 rounded-md border border-border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Value</TableHead>
+                      <TableHead>Error</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.errors.map((error, index) => (
+                      <TableRow key={index}>
+                        <TableCell className="font-mono">{error.row}</TableCell>
+                        <TableCell>
+                          {TRADE_FIELDS.find(f => f.field === error.field)?.label ?? 'Row'}
+                        </TableCell>
+                        <TableCell className="font-mono text-muted-foreground">{error.value || '—'}</TableCell>
+                        <TableCell className="text-loss">{error.message}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => result && onImport(result.trades)}
+            disabled={!result || result.trades.length === 0}
+            className="bg-gradient-primary hover:opacity-90"
+          >
+            Import {result?.trades.length ?? 0} Trades
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
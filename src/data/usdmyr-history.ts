@@ -0,0 +1,18 @@
+// Bundled daily USD/MYR closing rates (2014–2024) for historical simulation and hedge ratio estimation.
+// Illustrative spot series interpolated between approximate month-end levels, with wider
+// daily moves through the 2015 ringgit slump and the 2022 Fed hiking cycle. The 3M outright
+// is derived by covered interest parity from approximate OPR and Fed funds levels plus a
+// small random basis. Replace usdmyr-daily.csv with official BNM reference rates for production use.
+
+import usdMyrCsv from "./usdmyr-daily.csv?raw";
+import { parseRateHistory, parseSpotForwardHistory } from "@/lib/rate-history";
+import type { PairRiskOptions } from "@/lib/fx-calculations";
+
+export const USD_MYR_HISTORY = parseRateHistory(usdMyrCsv);
+
+export const USD_MYR_SPOT_FORWARD_HISTORY = parseSpotForwardHistory(usdMyrCsv);
+
+// Histories by pair; only USD/MYR is bundled, so other pairs run without historical VaR or a regressed hedge ratio
+export const PAIR_HISTORIES: PairRiskOptions['histories'] = {
+  'USD/MYR': { rateHistory: USD_MYR_HISTORY, spotForwardHistory: USD_MYR_SPOT_FORWARD_HISTORY },
+};
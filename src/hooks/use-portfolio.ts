@@ -0,0 +1,37 @@
+import { createContext, useContext } from "react";
+import type { FXTrade, RiskScenario, SimulationParameters } from "@/lib/fx-calculations";
+import type { CurrencyPair, PairMarket } from "@/lib/currency-pairs";
+import type { CorrelationMatrix } from "@/lib/portfolio-var";
+import type { StressScenario } from "@/lib/stress-scenarios";
+
+export type TradeSource = 'generated' | 'imported' | 'edited';
+
+export interface PortfolioContextValue {
+  parameters: SimulationParameters;
+  asOfDate: Date;
+  trades: FXTrade[]; // the whole book, every pair
+  pairTrades: FXTrade[]; // trades in the active pair
+  tradeSource: TradeSource;
+  markets: Record<CurrencyPair, PairMarket>; // the active pair's spot and volatility come from the parameters
+  riskScenario: RiskScenario; // the active pair's scenario
+  pairScenarios: Record<CurrencyPair, RiskScenario>;
+  correlations: CorrelationMatrix; // between pairs, for diversified portfolio VaR
+  activeStress: StressScenario | null;
+  setParameter: (key: string, value: number | string) => void;
+  resetParameters: () => void;
+  applyParameters: (parameters: SimulationParameters) => void;
+  setCorrelations: (correlations: CorrelationMatrix) => void;
+  setTrades: (trades: FXTrade[], source: TradeSource) => void;
+  restoreGeneratedTrades: () => void;
+  applyStress: (stress: StressScenario | null) => void;
+}
+
+export const PortfolioContext = createContext<PortfolioContextValue | null>(null);
+
+export function usePortfolio() {
+  const context = useContext(PortfolioContext);
+  if (!context) {
+    throw new Error("usePortfolio must be used within a PortfolioProvider");
+  }
+  return context;
+}
@@ -0,0 +1,52 @@
+import { useCallback, useMemo } from "react";
+import { usePortfolio } from "@/hooks/use-portfolio";
+import { getPairConfig, pairConversionRates, type CurrencyPair } from "@/lib/currency-pairs";
+import {
+  convertMoney,
+  formatMoney,
+  FUNCTIONAL_CURRENCY,
+  money,
+  type Money
+} from "@/lib/money";
+
+// Convert functional-currency (MYR) amounts into the selected reporting currency
+export function useReportingCurrency() {
+  const { parameters, markets } = usePortfolio();
+  const currency = parameters.reportingCurrency;
+  const rates = useMemo(() => pairConversionRates(markets), [markets]);
+
+  // Amounts convert at today's spots unless the rate they were realised at is given, for the active pair by default
+  const toReporting = useCallback((
+    value: Money | number,
+    pairRate?: number,
+    pair: CurrencyPair = parameters.currencyPair
+  ): Money => {
+    const amount = typeof value === 'number' ? money(value) : value;
+    const realised = pairRate ? { ...rates, [getPairConfig(pair).base]: pairRate } : rates;
+    return convertMoney(amount, currency, realised);
+  }, [currency, rates, parameters.currencyPair]);
+
+  const format = useCallback(
+    (value: Money | number, digits?: number) => formatMoney(toReporting(value), digits),
+    [toReporting]
+  );
+
+  // P&L curves against a pair's rate: each point's amounts are realised at that point's rate
+  const toReportingCurve = useCallback(<T extends { fxRate: number }>(
+    points: T[],
+    pair: CurrencyPair = parameters.currencyPair
+  ): T[] => {
+    if (currency === FUNCTIONAL_CURRENCY) return points;
+    return points.map(point => {
+      const converted = { ...point };
+      Object.keys(point).forEach(key => {
+        if (key !== 'fxRate' && typeof point[key] === 'number') {
+          converted[key] = toReporting(point[key], point.fxRate, pair).amount;
+        }
+      });
+      return converted;
+    });
+  }, [currency, toReporting, parameters.currencyPair]);
+
+  return { currency, toReporting, toReportingCurve, format };
+}
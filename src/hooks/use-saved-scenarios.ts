@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  createSavedScenario,
+  loadSavedScenarios,
+  persistSavedScenarios,
+  type SavedScenario
+} from "@/lib/scenario-library";
+import {
+  DEFAULT_PARAMETERS,
+  formatAsOfDate,
+  type RiskScenario,
+  type SimulationParameters
+} from "@/lib/fx-calculations";
+
+// Saved scenarios kept in sync with browser storage. Scenarios saved before the as-of date was a
+// parameter were valued on the day they were saved
+export function useSavedScenarios() {
+  const [scenarios, setScenarios] = useState<SavedScenario[]>(() =>
+    loadSavedScenarios().map(saved => {
+      const savedOn = new Date(saved.savedAt);
+      const asOfDate = isNaN(savedOn.getTime()) ? DEFAULT_PARAMETERS.asOfDate : formatAsOfDate(savedOn);
+      return { ...saved, parameters: { ...DEFAULT_PARAMETERS, asOfDate, ...saved.parameters } };
+    })
+  );
+
+  useEffect(() => {
+    persistSavedScenarios(scenarios);
+  }, [scenarios]);
+
+  const saveScenario = useCallback((
+    name: string,
+    parameters: SimulationParameters,
+    scenario: RiskScenario,
+    stressId?: string
+  ) => {
+    const saved = createSavedScenario(name, parameters, scenario, stressId);
+    setScenarios(prev => [...prev, saved]);
+    return saved;
+  }, []);
+
+  const removeScenario = useCallback((id: string) => {
+    setScenarios(prev => prev.filter(saved => saved.id !== id));
+  }, []);
+
+  return { scenarios, saveScenario, removeScenario };
+}
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  runSimulationJob,
+  type SimulationJob,
+  type SimulationOutput,
+  type SimulationResponse
+} from "@/lib/simulation-engine";
+
+interface PendingRun {
+  id: number;
+  resolve: (output: SimulationOutput | null) => void;
+  reject: (error: Error) => void;
+}
+
+const createWorker = () =>
+  new Worker(new URL("../workers/simulation.worker.ts", import.meta.url), { type: "module" });
+
+// Run simulation jobs in a Web Worker. A run resolves to null when cancelled, either explicitly or by
+// a newer run; the worker is terminated, since a synchronous simulation cannot be interrupted otherwise
+export function useSimulationWorker() {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef<PendingRun | null>(null);
+  const nextIdRef = useRef(0);
+  const [progress, setProgress] = useState<number | null>(null); // percent while a run is in flight
+
+  const cancel = useCallback(() => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    pendingRef.current = null;
+    setProgress(null);
+    pending.resolve(null);
+  }, []);
+
+  const run = useCallback((job: SimulationJob): Promise<SimulationOutput | null> => {
+    cancel();
+
+    // Environments without workers run the job inline
+    if (typeof Worker === 'undefined') {
+      return Promise.resolve(runSimulationJob(job));
+    }
+
+    const id = ++nextIdRef.current;
+    const worker = workerRef.current ?? createWorker();
+    workerRef.current = worker;
+    setProgress(0);
+
+    return new Promise((resolve, reject) => {
+      pendingRef.current = { id, resolve, reject };
+
+      const settle = () => {
+        pendingRef.current = null;
+        setProgress(null);
+      };
+
+      worker.onmessage = (event: MessageEvent<SimulationResponse>) => {
+        const message = event.data;
+        if (message.id !== pendingRef.current?.id) return;
+
+        if (message.type === 'progress') {
+          setProgress(Math.round(message.progress * 100));
+        } else if (message.type === 'result') {
+          settle();
+          resolve(message.output);
+        } else {
+          settle();
+          reject(new Error(message.message));
+        }
+      };
+      worker.onerror = (event) => {
+        if (pendingRef.current?.id !== id) return;
+        settle();
+        reject(new Error(event.message || 'Simulation worker failed'));
+      };
+
+      worker.postMessage({ id, job });
+    });
+  }, [cancel]);
+
+  // Stop any run still in flight when the page unmounts; its caller gets null, as on cancel
+  useEffect(() => () => {
+    const pending = pendingRef.current;
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    pendingRef.current = null;
+    pending?.resolve(null);
+  }, []);
+
+  return { run, cancel, progress, isRunning: progress !== null };
+}
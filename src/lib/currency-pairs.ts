@@ -0,0 +1,69 @@
+// Currency Pairs: the MYR-quoted pairs in the book and the market data held for each
+
+import { buildConversionRates, type ConversionRates, type ForeignCurrency } from "./money";
+import {
+  DEFAULT_CNY_CURVE,
+  DEFAULT_EUR_CURVE,
+  DEFAULT_JPY_CURVE,
+  DEFAULT_MYR_CURVE,
+  DEFAULT_SGD_CURVE,
+  DEFAULT_USD_CURVE,
+  type CurveSet
+} from "./yield-curves";
+
+// Every pair is quoted in MYR per unit of its base currency, so risk aggregates in MYR
+export type CurrencyPair = `${ForeignCurrency}/MYR`;
+
+export interface PairConfig {
+  pair: CurrencyPair;
+  base: ForeignCurrency;
+  rateRange: { min: number; max: number; step: number }; // spot slider bounds
+  decimals: number; // quote precision
+  notionalScale: number; // base currency units per USD of ticket size, for sample trades
+  bookShare: number; // share of the sample book
+}
+
+export interface PairMarket {
+  spotRate: number; // MYR per unit of the base currency
+  volatility: number; // annualized
+  curves: CurveSet;
+}
+
+export const DEFAULT_PAIR: CurrencyPair = 'USD/MYR';
+
+export const CURRENCY_PAIRS: PairConfig[] = [
+  { pair: 'USD/MYR', base: 'USD', rateRange: { min: 3.5, max: 5.5, step: 0.01 }, decimals: 4, notionalScale: 1, bookShare: 0.6 },
+  { pair: 'SGD/MYR', base: 'SGD', rateRange: { min: 2.8, max: 4.2, step: 0.01 }, decimals: 4, notionalScale: 1.35, bookShare: 0.15 },
+  { pair: 'EUR/MYR', base: 'EUR', rateRange: { min: 4, max: 6, step: 0.01 }, decimals: 4, notionalScale: 0.92, bookShare: 0.1 },
+  { pair: 'CNY/MYR', base: 'CNY', rateRange: { min: 0.5, max: 0.8, step: 0.001 }, decimals: 4, notionalScale: 7.2, bookShare: 0.1 },
+  { pair: 'JPY/MYR', base: 'JPY', rateRange: { min: 0.02, max: 0.045, step: 0.0001 }, decimals: 5, notionalScale: 150, bookShare: 0.05 },
+];
+
+// Illustrative spot and volatility levels; replace with the day's BNM reference rates and implied vols
+export const DEFAULT_PAIR_MARKETS: Record<CurrencyPair, PairMarket> = {
+  'USD/MYR': { spotRate: 4.65, volatility: 0.15, curves: { foreign: DEFAULT_USD_CURVE, domestic: DEFAULT_MYR_CURVE } },
+  'SGD/MYR': { spotRate: 3.45, volatility: 0.06, curves: { foreign: DEFAULT_SGD_CURVE, domestic: DEFAULT_MYR_CURVE } },
+  'EUR/MYR': { spotRate: 5.05, volatility: 0.09, curves: { foreign: DEFAULT_EUR_CURVE, domestic: DEFAULT_MYR_CURVE } },
+  'CNY/MYR': { spotRate: 0.645, volatility: 0.06, curves: { foreign: DEFAULT_CNY_CURVE, domestic: DEFAULT_MYR_CURVE } },
+  'JPY/MYR': { spotRate: 0.031, volatility: 0.12, curves: { foreign: DEFAULT_JPY_CURVE, domestic: DEFAULT_MYR_CURVE } },
+};
+
+export function getPairConfig(pair: CurrencyPair): PairConfig {
+  return CURRENCY_PAIRS.find(config => config.pair === pair) ?? CURRENCY_PAIRS[0];
+}
+
+export function tradePair(trade: { pair?: CurrencyPair }): CurrencyPair {
+  return trade.pair ?? DEFAULT_PAIR;
+}
+
+export function filterTradesByPair<T extends { pair?: CurrencyPair }>(trades: T[], pair: CurrencyPair): T[] {
+  return trades.filter(trade => tradePair(trade) === pair);
+}
+
+// MYR value of each currency from the pairs' spot rates
+export function pairConversionRates(markets: Record<CurrencyPair, PairMarket>): ConversionRates {
+  const spots = Object.fromEntries(
+    CURRENCY_PAIRS.map(({ pair, base }) => [base, markets[pair].spotRate])
+  ) as Record<ForeignCurrency, number>;
+  return buildConversionRates(spots);
+}
@@ -0,0 +1,315 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildForwardHedges,
+  buildPairScenario,
+  buildRiskScenario,
+  calculateExposureLadder,
+  calculateExpectedShortfall,
+  calculateExposureSummary,
+  calculateHistoricalVaR,
+  calculateRiskByPair,
+  calculateRiskMetrics,
+  calculateTailRisk,
+  calculateVaR,
+  calculateVaRTermStructure,
+  DEFAULT_PARAMETERS,
+  generatePnLSensitivity,
+  getMaturityBucket,
+  hedgeOverlayKey,
+  revaluePortfolio,
+  revalueTrade,
+  type FXTrade,
+  type RiskScenario
+} from "./fx-calculations";
+import { CURRENCY_PAIRS, DEFAULT_PAIR_MARKETS, type CurrencyPair } from "./currency-pairs";
+import { parseRateHistory } from "./rate-history";
+import { applyCurveShock, DEFAULT_CURVES, priceForward } from "./yield-curves";
+
+describe('calculateVaR', () => {
+  it('is the normal quantile of the horizon volatility', () => {
+    // One year at 10% volatility: 1.645 standard deviations at 95%, 2.326 at 99%
+    expect(calculateVaR(1000000, 0.1, 0.95, 252)).toBeCloseTo(164485, 0);
+    expect(calculateVaR(1000000, 0.1, 0.99, 252)).toBeCloseTo(232635, 0);
+  });
+
+  it('scales with the square root of the horizon', () => {
+    const oneDay = calculateVaR(1000000, 0.15, 0.95, 1);
+    expect(calculateVaR(1000000, 0.15, 0.95, 10) / oneDay).toBeCloseTo(Math.sqrt(10), 10);
+  });
+});
+
+describe('calculateVaRTermStructure', () => {
+  it('adds the chosen horizon to the standard ones in order', () => {
+    expect(calculateVaRTermStructure(1000000, 0.15, 0.95, 5).map(point => point.timeHorizon)).toEqual([1, 5, 10, 30]);
+    expect(calculateVaRTermStructure(1000000, 0.15, 0.95, 10).map(point => point.label)).toEqual(['1d', '10d', '30d']);
+  });
+});
+
+describe('calculateExpectedShortfall', () => {
+  it('is the normal tail mean beyond VaR', () => {
+    // 95% ES of a unit normal is φ(1.645) / 0.05 = 2.063 standard deviations
+    expect(calculateExpectedShortfall(1000000, 0.1, 0.95, 252)).toBeCloseTo(206271, 0);
+    expect(calculateExpectedShortfall(1000000, 0.1, 0.99, 10)).toBeGreaterThan(calculateVaR(1000000, 0.1, 0.99, 10));
+  });
+});
+
+describe('calculateTailRisk', () => {
+  it('takes VaR at the tail boundary and ES as the mean of the tail', () => {
+    const pnls = Array.from({ length: 100 }, (_, i) => (i - 10) * 1000); // worst loss -10,000
+    expect(calculateTailRisk(pnls, 0.95)).toEqual({ valueAtRisk: 5000, expectedShortfall: 8000 });
+  });
+
+  it('reports no risk for an all-profit sample or no sample', () => {
+    expect(calculateTailRisk([100, 200, 300], 0.95)).toEqual({ valueAtRisk: 0, expectedShortfall: 0 });
+    expect(calculateTailRisk([], 0.95)).toEqual({ valueAtRisk: 0, expectedShortfall: 0 });
+  });
+});
+
+describe('maturity buckets', () => {
+  const asOfDate = new Date(2026, 0, 1);
+  const maturingIn = (days: number) => ({ maturityDate: new Date(asOfDate.getTime() + days * 24 * 60 * 60 * 1000) });
+  const trade = (id: string, days: number, notional: number, direction: FXTrade['direction']): FXTrade => ({
+    id,
+    notional,
+    direction,
+    tradeDate: asOfDate,
+    ...maturingIn(days),
+  });
+
+  it('puts each bucket boundary in the shorter bucket', () => {
+    expect(getMaturityBucket(maturingIn(30), asOfDate)).toBe('0–1M');
+    expect(getMaturityBucket(maturingIn(31), asOfDate)).toBe('1–3M');
+    expect(getMaturityBucket(maturingIn(365), asOfDate)).toBe('6–12M');
+    expect(getMaturityBucket(maturingIn(366), asOfDate)).toBe('>12M');
+    expect(getMaturityBucket(maturingIn(-5), asOfDate)).toBe('0–1M');
+  });
+
+  it('nets long and short notional per bucket and subtracts hedges', () => {
+    const trades = [trade('A', 20, 3000000, 'long'), trade('B', 25, 1000000, 'short'), trade('C', 200, 500000, 'short')];
+    const hedges = buildForwardHedges(trades, 0.5, buildRiskScenario(DEFAULT_PARAMETERS), asOfDate);
+    const ladder = calculateExposureLadder(trades, hedges, asOfDate);
+
+    const oneMonth = ladder.find(row => row.bucket === '0–1M')!;
+    expect(oneMonth).toMatchObject({ tradeCount: 2, longNotional: 3000000, shortNotional: 1000000, netNotional: 2000000 });
+    expect(oneMonth.residualNotional).toBeCloseTo(1000000, 6);
+    expect(ladder.find(row => row.bucket === '6–12M')!.residualNotional).toBeCloseTo(-250000, 6);
+    expect(ladder.reduce((sum, row) => sum + row.tradeCount, 0)).toBe(3);
+  });
+});
+
+describe('curve-shock revaluation', () => {
+  it('moves each trade by the change in its CIP forward under a pure parallel shock', () => {
+    const asOfDate = new Date(2026, 0, 1);
+    const scenario = buildRiskScenario({ ...DEFAULT_PARAMETERS, curveShockType: 'parallel', curveShockTarget: 'MYR', interestRateShock: 100 });
+    const shockedCurves = applyCurveShock(DEFAULT_CURVES, { type: 'parallel', target: 'MYR', bps: 100 });
+    const trades: FXTrade[] = [[45, 'long'], [180, 'short'], [720, 'long']].map(([days, direction], i) => ({
+      id: `T${i}`,
+      notional: 1000000,
+      direction: direction as FXTrade['direction'],
+      tradeDate: asOfDate,
+      maturityDate: new Date(asOfDate.getTime() + (days as number) * 24 * 60 * 60 * 1000),
+    }));
+
+    revaluePortfolio(trades, scenario, asOfDate).forEach((valuation, i) => {
+      const spot = DEFAULT_PARAMETERS.currentFXRate;
+      const move = priceForward(spot, valuation.tenorYears, shockedCurves) - priceForward(spot, valuation.tenorYears, DEFAULT_CURVES);
+      expect(valuation.pnl).toBeCloseTo((trades[i].direction === 'long' ? 1 : -1) * 1000000 * move, 6);
+    });
+  });
+});
+
+describe('calculateHistoricalVaR', () => {
+  const history = parseRateHistory([
+    'date,rate',
+    '2024-01-05,4.40',
+    '2024-01-02,4.50',
+    '2024-01-03,4.45',
+    'not a date,4.60',
+    '2024-01-04,4.60',
+    '2024-01-08,4.62',
+  ].join('\n'));
+  const long: FXTrade = {
+    id: 'L1',
+    notional: 1000000,
+    direction: 'long',
+    tradeDate: new Date(2024, 0, 1),
+    maturityDate: new Date(2024, 6, 1),
+  };
+
+  it('reads the history in date order and skips unusable rows', () => {
+    expect(history.map(observation => observation.rate)).toEqual([4.5, 4.45, 4.6, 4.4, 4.62]);
+  });
+
+  it('replays each h-day return on the current book and ranks the worst windows', () => {
+    const result = calculateHistoricalVaR([long], 4.2, history, 0.75, 1)!;
+    expect(result.observations).toBe(4);
+    expect(result.worstDays[0].date).toEqual(new Date(2024, 0, 5));
+    expect(result.worstDays[0].pnl).toBeCloseTo(1000000 * 4.2 * (4.4 / 4.6 - 1), 6);
+    expect(result.worstDays.map(day => day.pnl)).toEqual([...result.worstDays.map(day => day.pnl)].sort((a, b) => a - b));
+    expect(result.valueAtRisk).toBeGreaterThan(0);
+
+    expect(calculateHistoricalVaR([long], 4.2, history, 0.75, 2)!.observations).toBe(3);
+  });
+
+  it('needs more observations than the horizon', () => {
+    expect(calculateHistoricalVaR([long], 4.2, history, 0.95, 5)).toBeNull();
+  });
+});
+
+describe('revalueTrade', () => {
+  const asOfDate = new Date(2026, 0, 1);
+  const carry: RiskScenario = { currentFXRate: 4.5, shockedFXRate: 4.6, interestRateShock: 0, volatility: 0.1, rateDifferential: -0.01 };
+  const maturingIn = (days: number, direction: FXTrade['direction'] = 'long'): FXTrade => ({
+    id: `D${days}`,
+    notional: 1000000,
+    direction,
+    tradeDate: asOfDate,
+    maturityDate: new Date(asOfDate.getTime() + days * 24 * 60 * 60 * 1000),
+  });
+
+  it('revalues each trade at its own forward to maturity', () => {
+    const valuation = revalueTrade(maturingIn(365), carry, asOfDate);
+    expect(valuation.tenorYears).toBeCloseTo(1, 12);
+    expect(valuation.baseForward).toBeCloseTo(4.5 * 0.99, 12);
+    expect(valuation.shockedForward).toBeCloseTo(4.6 * 0.99, 12);
+    expect(valuation.pnl).toBeCloseTo(1000000 * 0.1 * 0.99, 6);
+    expect(revalueTrade(maturingIn(365, 'short'), carry, asOfDate).pnl).toBeCloseTo(-valuation.pnl, 6);
+  });
+
+  it('prices a matured trade at spot', () => {
+    const valuation = revalueTrade(maturingIn(-10), carry, asOfDate);
+    expect(valuation.tenorYears).toBe(0);
+    expect(valuation.pnl).toBeCloseTo(1000000 * 0.1, 6);
+  });
+
+  it('gives longer trades more of a rate shock', () => {
+    const rateShock = { ...carry, shockedFXRate: 4.5, interestRateShock: 100 };
+    const [short, long] = revaluePortfolio([maturingIn(91), maturingIn(365)], rateShock, asOfDate);
+    expect(short.pnl).toBeGreaterThan(0);
+    expect(long.pnl / short.pnl).toBeCloseTo(365 / 91, 6);
+  });
+});
+
+describe('generatePnLSensitivity', () => {
+  const asOfDate = new Date(2026, 0, 1);
+  const scenario: RiskScenario = { currentFXRate: 4.5, shockedFXRate: 4.5, interestRateShock: 0, volatility: 0.1, rateDifferential: -0.01 };
+  const trades: FXTrade[] = [{
+    id: 'L1',
+    notional: 2000000,
+    direction: 'long',
+    tradeDate: asOfDate,
+    maturityDate: new Date(asOfDate.getTime() + 182 * 24 * 60 * 60 * 1000),
+  }];
+  const slope = (points: Array<{ fxRate: number }>, key: string) => {
+    const first = points[0] as Record<string, number>;
+    const last = points[points.length - 1] as Record<string, number>;
+    return (last[key] - first[key]) / (last.fxRate - first.fxRate);
+  };
+
+  it('flattens the hedged curve in proportion to the hedge ratio', () => {
+    const curve = generatePnLSensitivity(trades, 4.5, 0.5, { hedgeRatio: 0.6, overlayRatios: [0.25, 1], scenario, asOfDate });
+    expect(curve).toHaveLength(51);
+    expect(slope(curve, 'pnl')).toBeCloseTo(2, 12); // millions of MYR per MYR move on 2m long
+    expect(slope(curve, 'hedgedPnl')).toBeCloseTo(2 * 0.4, 12);
+    expect(slope(curve, hedgeOverlayKey(0.25))).toBeCloseTo(2 * 0.75, 12);
+    expect(slope(curve, hedgeOverlayKey(1))).toBeCloseTo(0, 12);
+  });
+
+  it('locks in the forward points on the hedged share', () => {
+    const curve = generatePnLSensitivity(trades, 4.5, 0.5, { hedgeRatio: 1, scenario, asOfDate });
+    const forward = 4.5 * (1 - 0.01 * 182 / 365);
+    curve.forEach(point => expect(point.hedgedPnl).toBeCloseTo(2 * (forward - 4.5), 9));
+  });
+
+  it('leaves the curve unhedged at a zero ratio', () => {
+    generatePnLSensitivity(trades, 4.5, 0.5, { scenario, asOfDate })
+      .forEach(point => expect(point.hedgedPnl).toBe(point.pnl));
+  });
+});
+
+describe('net and gross exposure', () => {
+  const asOfDate = new Date(2026, 0, 1);
+  const scenario: RiskScenario = { currentFXRate: 4.5, shockedFXRate: 4.5, interestRateShock: 0, volatility: 0.1, rateDifferential: -0.01 };
+  const trade = (id: string, notional: number, direction: FXTrade['direction']): FXTrade => ({
+    id,
+    notional,
+    direction,
+    tradeDate: asOfDate,
+    maturityDate: new Date(asOfDate.getTime() + 182 * 24 * 60 * 60 * 1000),
+  });
+  const metrics = (trades: FXTrade[], exposureBasis: 'net' | 'gross') =>
+    calculateRiskMetrics(trades, scenario, { asOfDate, exposureBasis, timeHorizon: 10 });
+
+  it('offsets longs against shorts', () => {
+    expect(calculateExposureSummary([trade('L', 3000000, 'long'), trade('S', 5000000, 'short')])).toEqual({
+      grossNotional: 8000000,
+      netNotional: -2000000,
+      absoluteNotional: 2000000,
+    });
+  });
+
+  it('sees no risk in a fully offset book on a net basis', () => {
+    const book = [trade('L', 1000000, 'long'), trade('S', 1000000, 'short')];
+    const net = metrics(book, 'net');
+    expect(net.totalExposure).toBe(0);
+    expect(net.valueAtRisk).toBe(0);
+    expect(net.hedgeCost).toBe(0);
+    expect(net.optimalHedgeRatio).toBe(0);
+
+    const gross = metrics(book, 'gross');
+    expect(gross.totalExposure).toBe(2000000);
+    expect(gross.valueAtRisk).toBeGreaterThan(0);
+  });
+
+  it('signs the net hedge cost so a one-directional book costs the same on either basis', () => {
+    [[trade('L', 2000000, 'long')], [trade('S', 2000000, 'short')]].forEach(book => {
+      expect(metrics(book, 'net').hedgeCost).toBeCloseTo(metrics(book, 'gross').hedgeCost, 6);
+    });
+
+    // Forward points are negative here, so hedging the net long 2m earns them on 2m only
+    const mixed = [trade('L', 3000000, 'long'), trade('S', 1000000, 'short')];
+    const points = 4.5 * -0.01 * 182 / 365;
+    expect(metrics(mixed, 'net').hedgeCost).toBeCloseTo(2000000 * points, 6);
+    expect(metrics(mixed, 'gross').hedgeCost).toBeCloseTo(4000000 * points, 6);
+  });
+});
+
+describe('calculateRiskByPair', () => {
+  const asOfDate = new Date(2026, 0, 1);
+  const scenarios = Object.fromEntries(CURRENCY_PAIRS.map(({ pair }) => [
+    pair,
+    buildPairScenario(DEFAULT_PARAMETERS, DEFAULT_PAIR_MARKETS[pair]),
+  ])) as Record<CurrencyPair, RiskScenario>;
+  const trade = (id: string, pair: CurrencyPair | undefined, notional: number, direction: FXTrade['direction']): FXTrade => ({
+    id,
+    pair,
+    notional,
+    direction,
+    tradeDate: asOfDate,
+    maturityDate: new Date(2026, 5, 30),
+  });
+  const book = [
+    trade('U1', 'USD/MYR', 2000000, 'long'),
+    trade('U2', undefined, 500000, 'short'), // imported before pairs were tracked: USD/MYR
+    trade('S1', 'SGD/MYR', 3000000, 'long'),
+    trade('J1', 'JPY/MYR', 100000000, 'short'),
+  ];
+
+  it('runs each pair with trades under its own scenario and skips the rest', () => {
+    const rows = calculateRiskByPair(book, scenarios, { asOfDate });
+    expect(rows.map(row => [row.pair, row.tradeCount])).toEqual([['USD/MYR', 2], ['SGD/MYR', 1], ['JPY/MYR', 1]]);
+
+    rows.forEach(row => {
+      expect(row.scenario).toBe(scenarios[row.pair]);
+      expect(row.exposureMYR).toBeCloseTo(row.metrics.totalExposure * scenarios[row.pair].currentFXRate, 6);
+    });
+    expect(rows[0].metrics.exposure.netNotional).toBe(1500000);
+  });
+
+  it('matches a run of each pair on its own', () => {
+    const sgd = calculateRiskByPair(book, scenarios, { asOfDate }).find(row => row.pair === 'SGD/MYR')!;
+    const alone = calculateRiskMetrics([book[2]], scenarios['SGD/MYR'], { asOfDate });
+    expect(sgd.metrics.unhedgedPnL).toBe(alone.unhedgedPnL);
+    expect(sgd.metrics.valueAtRisk).toBe(alone.valueAtRisk);
+  });
+});
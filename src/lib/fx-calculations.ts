@@ -1,8 +1,52 @@
 // FX Risk Calculation Utilities for Treasury Risk Management
 
+import { format, parse } from "date-fns";
+import { createSeededRandom, DEFAULT_SEED } from "./random";
+import { inverseNormalCDF, normalPDF } from "./statistics";
+import {
+  estimateHedgeRatio,
+  type HedgeRatioEstimate,
+  type HedgeRatioMethod,
+  type SpotForwardObservation
+} from "./hedge-ratio";
+import {
+  garmanKohlhagen,
+  optionPayoff,
+  calculateOptionGreeks,
+  calculateForwardGreeks,
+  scaleGreeks,
+  sumGreeks,
+  type Greeks,
+  type OptionType
+} from "./fx-options";
+import {
+  priceForward,
+  interpolateZeroRate,
+  applyCurveShock,
+  calculateCurveShockedFXRate,
+  DEFAULT_CURVES,
+  DEFAULT_USD_CURVE,
+  type CurveSet,
+  type CurveShockTarget,
+  type CurveShockType
+} from "./yield-curves";
+import { FUNCTIONAL_CURRENCY, type CurrencyCode } from "./money";
+import {
+  CURRENCY_PAIRS,
+  DEFAULT_PAIR,
+  DEFAULT_PAIR_MARKETS,
+  filterTradesByPair,
+  type CurrencyPair,
+  type PairMarket
+} from "./currency-pairs";
+
+export { inverseNormalCDF, normalPDF };
+
+// Notionals are in the pair's base currency and rates in MYR per unit of it
 export interface FXTrade {
   id: string;
-  notionalUSD: number;
+  pair?: CurrencyPair; // USD/MYR when absent
+  notional: number;
   tradeDate: Date;
   maturityDate: Date;
   direction: 'long' | 'short';
@@ -11,34 +55,235 @@ export interface FXTrade {
 export interface RiskScenario {
   currentFXRate: number;
   shockedFXRate: number;
+  shockedSpotRate?: number; // spot before the curve shock's effect; shockedFXRate when unset
+  interestRateShock: number; // basis points
+  volatility: number;
+  rateDifferential?: number; // annual MYR minus base currency rate, decimal; used when no curves are set
+  curves?: CurveSet;
+  shockedCurves?: CurveSet;
+}
+
+export interface ForwardHedge {
+  id: string;
+  notional: number;
+  direction: 'long' | 'short';
+  forwardRate: number; // contracted MYR per unit
+  maturityDate: Date;
+}
+
+export interface OptionHedge {
+  id: string;
+  notional: number;
+  direction: 'long' | 'short'; // bought or written
+  optionType: OptionType;
+  strike: number; // MYR per unit
+  premium: number; // MYR per unit, paid at inception
+  maturityDate: Date;
+}
+
+export interface SensitivityOptions {
+  hedgeRatio?: number;
+  hedges?: ForwardHedge[]; // overrides hedgeRatio when supplied
+  optionHedges?: OptionHedge[]; // adds an optionHedgedPnl profile
+  overlayRatios?: number[];
+  scenario?: RiskScenario;
+  asOfDate?: Date;
+}
+
+export interface SensitivityPoint {
+  fxRate: number;
+  pnl: number;
+  hedgedPnl: number;
+  optionHedgedPnl?: number;
+  [overlayKey: string]: number;
+}
+
+// Per-trade revaluation at the trade's own forward to maturity
+export interface TradeValuation {
+  id: string;
+  tenorYears: number;
+  baseForward: number;
+  shockedForward: number;
+  pnl: number;
+}
+
+// Gross sums every notional; net offsets longs against shorts
+export type ExposureBasis = 'net' | 'gross';
+
+export interface ExposureSummary {
+  grossNotional: number; // sum of notionals regardless of direction
+  netNotional: number; // long minus short
+  absoluteNotional: number; // size of the net position
+}
+
+export interface SimulationParameters {
+  currencyPair: CurrencyPair; // the pair the dashboard analyses
+  currentFXRate: number;
   interestRateShock: number; // basis points
   volatility: number;
+  numberOfTrades: number;
+  timeHorizon: number; // days
+  confidenceLevel: number; // e.g. 0.95
+  curveShockType: CurveShockType;
+  curveShockTarget: CurveShockTarget;
+  hedgeRatioMethod: HedgeRatioMethod;
+  riskAversion: number;
+  exposureBasis: ExposureBasis;
+  reportingCurrency: CurrencyCode;
+  seed: number;
+  asOfDate: string; // valuation date, yyyy-MM-dd; trades are generated and revalued against it
 }
 
+// Inputs recorded alongside a result so the run can be replayed exactly
+export interface RunStamp {
+  seed: number;
+  asOfDate: string; // yyyy-MM-dd the trade book was generated and revalued against
+  parameters: SimulationParameters;
+  scenario: RiskScenario;
+}
+
+// Amounts are in the functional currency (MYR) except notionals and delta, which are in the pair's base currency
 export interface RiskMetrics {
-  totalExposureUSD: number;
+  currency: CurrencyCode;
+  totalExposure: number; // on the exposure basis that drives VaR, hedge cost and ratio
+  exposure: ExposureSummary;
+  exposureBasis: ExposureBasis;
   totalPnL: number;
   unhedgedPnL: number;
   hedgedPnL: number;
   optimalHedgeRatio: number;
+  hedgeRatioEstimate: HedgeRatioEstimate;
   hedgeCost: number;
   valueAtRisk: number;
+  varConfidenceLevel: number;
+  varTimeHorizon: number; // days
+  varTermStructure: VaRTermPoint[];
+  tradeValuations: TradeValuation[];
+  expectedShortfall: number;
+  greeks: Greeks; // aggregated over the trade book
+  simulatedTailRisk?: TailRiskMeasures;
+  historicalVaR?: HistoricalVaRResult;
+  run?: RunStamp;
+}
+
+// Sensitivities of one position, tagged for maturity bucketing
+export interface PositionGreeks {
+  id: string;
+  maturityDate: Date;
+  greeks: Greeks;
+}
+
+// Exposure and hedge cover falling due within one maturity bucket
+export interface ExposureBucket {
+  bucket: MaturityBucketLabel;
+  tradeCount: number;
+  longNotional: number;
+  shortNotional: number; // positive notional sold
+  netNotional: number; // long minus short
+  hedgedNotional: number; // signed notional of hedges maturing in the bucket
+  residualNotional: number; // net exposure left after hedges
+}
+
+export interface GreeksLadderRow {
+  bucket: MaturityBucketLabel;
+  trades: Greeks;
+  hedges: Greeks;
+  net: Greeks;
+}
+
+export interface RateObservation {
+  date: Date;
+  rate: number;
+}
+
+export interface HistoricalScenario {
+  date: Date; // end date of the historical window
+  rateReturn: number; // log return over the window
+  shockedRate: number;
+  pnl: number;
+}
+
+export interface TailRiskMeasures {
+  valueAtRisk: number;
+  expectedShortfall: number;
+}
+
+export interface HistoricalVaRResult {
+  valueAtRisk: number;
+  expectedShortfall: number;
+  confidenceLevel: number;
+  timeHorizon: number; // days
+  observations: number;
+  startDate: Date;
+  endDate: Date;
+  worstDays: HistoricalScenario[];
 }
 
-// Generate dummy FX trades for simulation
-export function generateFXTrades(count: number = 100): FXTrade[] {
+export interface VaRTermPoint {
+  label: string;
+  timeHorizon: number; // days
+  valueAtRisk: number;
+}
+
+export interface RiskMetricsOptions {
+  confidenceLevel?: number;
+  timeHorizon?: number; // days
+  rateHistory?: RateObservation[];
+  simulatedPnLs?: number[];
+  hedgeRatioMethod?: HedgeRatioMethod;
+  spotForwardHistory?: SpotForwardObservation[];
+  riskAversion?: number;
+  exposureBasis?: ExposureBasis;
+  asOfDate?: Date;
+  run?: RunStamp;
+}
+
+// Histories are per pair; the bundled series only cover USD/MYR
+export interface PairRiskOptions extends Omit<RiskMetricsOptions, 'rateHistory' | 'spotForwardHistory' | 'simulatedPnLs' | 'run'> {
+  histories?: Partial<Record<CurrencyPair, Pick<RiskMetricsOptions, 'rateHistory' | 'spotForwardHistory'>>>;
+}
+
+// Risk of one pair's trades; exposureMYR is the exposure on the chosen basis valued at spot
+export interface PairRisk {
+  pair: CurrencyPair;
+  tradeCount: number;
+  scenario: RiskScenario;
+  exposureMYR: number;
+  metrics: RiskMetrics;
+}
+
+// OPR ~3.00% vs Fed funds ~4.50%: MYR trades at a forward premium to USD
+export const DEFAULT_RATE_DIFFERENTIAL = -0.015;
+
+// Pair for a uniform draw, weighted by each pair's share of the sample book
+function pickPair(draw: number) {
+  let cumulative = 0;
+  return CURRENCY_PAIRS.find(config => (cumulative += config.bookShare) > draw)
+    ?? CURRENCY_PAIRS[0];
+}
+
+// Generate dummy FX trades for simulation; the same seed and as-of date always yield the same book
+export function generateFXTrades(
+  count: number = 100,
+  seed: number = DEFAULT_SEED,
+  asOfDate: Date = new Date()
+): FXTrade[] {
   const trades: FXTrade[] = [];
+  const random = createSeededRandom(seed);
+  const asOf = asOfDate.getTime();
   
   for (let i = 0; i < count; i++) {
-    const baseNotional = 50000 + Math.random() * 2000000; // $50K to $2M
-    const direction = Math.random() > 0.5 ? 'long' : 'short';
-    const daysToMaturity = Math.floor(Math.random() * 365) + 30; // 30-395 days
+    const baseNotional = 50000 + random() * 2000000; // $50K to $2M equivalent
+    const direction = random() > 0.5 ? 'long' : 'short';
+    const daysToMaturity = Math.floor(random() * 365) + 30; // 30-395 days
+    const pair = pickPair(random());
     
     trades.push({
       id: `FX-${i.toString().padStart(3, '0')}`,
-      notionalUSD: baseNotional,
-      tradeDate: new Date(Date.now() - Math.random() * 90 * 24 * 60 * 60 * 1000),
-      maturityDate: new Date(Date.now() + daysToMaturity * 24 * 60 * 60 * 1000),
+      pair: pair.pair,
+      notional: baseNotional * pair.notionalScale,
+      tradeDate: new Date(asOf - random() * 90 * 24 * 60 * 60 * 1000),
+      maturityDate: new Date(asOf + daysToMaturity * 24 * 60 * 60 * 1000),
       direction,
     });
   }
@@ -57,30 +302,221 @@ export function calculateShockedFXRate(
   return currentRate * (1 + shockDecimal * timeToMaturity);
 }
 
+// Outright forward rate from spot using simple-interest carry over the tenor
+export function calculateForwardRate(
+  spotRate: number,
+  tenorYears: number,
+  rateDifferential: number = DEFAULT_RATE_DIFFERENTIAL
+): number {
+  return spotRate * (1 + rateDifferential * tenorYears);
+}
+
+// As-of dates are kept as local calendar dates so saved parameters replay against the same day
+export const formatAsOfDate = (date: Date) => format(date, 'yyyy-MM-dd');
+export const parseAsOfDate = (value: string) => parse(value, 'yyyy-MM-dd', new Date());
+
+// Dashboard starting parameters; the batch CLI and saved scenarios fill omitted values from them
+export const DEFAULT_PARAMETERS: SimulationParameters = {
+  currencyPair: DEFAULT_PAIR,
+  currentFXRate: DEFAULT_PAIR_MARKETS[DEFAULT_PAIR].spotRate,
+  interestRateShock: 200, // basis points
+  volatility: DEFAULT_PAIR_MARKETS[DEFAULT_PAIR].volatility, // 15% annualized
+  numberOfTrades: 100,
+  timeHorizon: 30, // days
+  confidenceLevel: 0.95,
+  curveShockType: 'parallel',
+  curveShockTarget: 'MYR',
+  hedgeRatioMethod: 'heuristic',
+  riskAversion: 10,
+  exposureBasis: 'net',
+  reportingCurrency: 'MYR',
+  seed: DEFAULT_SEED,
+  asOfDate: formatAsOfDate(new Date()),
+};
+
+// Risk scenario implied by a parameter set: shocked curves and the spot-equivalent shocked rate.
+// Spot itself is unshocked; the curves carry the shock into each trade's forward
+export function buildRiskScenario(parameters: SimulationParameters, curves: CurveSet = DEFAULT_CURVES): RiskScenario {
+  const shockedCurves = applyCurveShock(curves, {
+    type: parameters.curveShockType,
+    target: parameters.curveShockTarget,
+    bps: parameters.interestRateShock,
+  });
+  const shockedRate = calculateCurveShockedFXRate(
+    parameters.currentFXRate,
+    parameters.timeHorizon / 365,
+    curves,
+    shockedCurves
+  );
+
+  return {
+    currentFXRate: parameters.currentFXRate,
+    shockedFXRate: shockedRate,
+    shockedSpotRate: parameters.currentFXRate,
+    interestRateShock: parameters.interestRateShock,
+    volatility: parameters.volatility,
+    curves,
+    shockedCurves,
+  };
+}
+
+// Scenario for one pair under the parameter set's shocks, at that pair's spot, volatility and curves
+export function buildPairScenario(parameters: SimulationParameters, market: PairMarket): RiskScenario {
+  return buildRiskScenario(
+    { ...parameters, currentFXRate: market.spotRate, volatility: market.volatility },
+    market.curves
+  );
+}
+
+// Forward at a tenor off the scenario's curves (CIP), or simple carry when no curves are set
+export function calculateScenarioForward(
+  scenario: RiskScenario,
+  spotRate: number,
+  tenorYears: number,
+  shocked: boolean
+): number {
+  const curves = shocked ? scenario.shockedCurves : scenario.curves;
+  if (curves) return priceForward(spotRate, tenorYears, curves);
+
+  const differential = (scenario.rateDifferential ?? DEFAULT_RATE_DIFFERENTIAL)
+    + (shocked ? scenario.interestRateShock / 10000 : 0);
+  return calculateForwardRate(spotRate, tenorYears, differential);
+}
+
+// Revalue one trade at its own forward to maturity under base and shocked scenarios
+export function revalueTrade(
+  trade: FXTrade,
+  scenario: RiskScenario,
+  asOfDate: Date = new Date()
+): TradeValuation {
+  const tenorYears = daysToMaturity(trade, asOfDate) / 365;
+  const baseForward = calculateScenarioForward(scenario, scenario.currentFXRate, tenorYears, false);
+  // Shocked curves already move the forward; pricing the spot-equivalent rate on them would count the shock twice
+  const shockedSpot = scenario.shockedSpotRate ?? scenario.shockedFXRate;
+  const shockedForward = calculateScenarioForward(scenario, shockedSpot, tenorYears, true);
+
+  return {
+    id: trade.id,
+    tenorYears,
+    baseForward,
+    shockedForward,
+    pnl: calculateTradePnL(trade, baseForward, shockedForward),
+  };
+}
+
+// Revalue every trade in the book
+export function revaluePortfolio(
+  trades: FXTrade[],
+  scenario: RiskScenario,
+  asOfDate: Date = new Date()
+): TradeValuation[] {
+  return trades.map(trade => revalueTrade(trade, scenario, asOfDate));
+}
+
+// Calculate P&L impact on a single trade
+export function calculateTradePnL(
+  trade: FXTrade,
+  currentRate: number,
+  shockedRate: number
+): number {
+  const rateDelta = shockedRate - currentRate;
+  return trade.direction === 'long' 
+    ? trade.notional * rateDelta 
+    : -trade.notional * rateDelta;
+}
+
 // Calculate P&L impact from unhedged FX exposure
 export function calculateUnhedgedPnL(
   trades: FXTrade[],
   currentRate: number,
   shockedRate: number
 ): number {
-  return trades.reduce((totalPnL, trade) => {
-    const rateDelta = shockedRate - currentRate;
-    const tradePnL = trade.direction === 'long' 
-      ? trade.notionalUSD * rateDelta 
-      : -trade.notionalUSD * rateDelta;
-    return totalPnL + tradePnL;
-  }, 0);
+  return trades.reduce(
+    (totalPnL, trade) => totalPnL + calculateTradePnL(trade, currentRate, shockedRate),
+    0
+  );
+}
+
+// Standard treasury tenor buckets by days to maturity
+export const MATURITY_BUCKETS = [
+  { label: '0–1M', maxDays: 30 },
+  { label: '1–3M', maxDays: 91 },
+  { label: '3–6M', maxDays: 182 },
+  { label: '6–12M', maxDays: 365 },
+  { label: '>12M', maxDays: Infinity },
+] as const;
+
+export type MaturityBucketLabel = typeof MATURITY_BUCKETS[number]['label'];
+
+// Days from the as-of date to the trade's maturity (zero once matured)
+export function daysToMaturity(trade: Pick<FXTrade, 'maturityDate'>, asOfDate: Date = new Date()): number {
+  const days = (trade.maturityDate.getTime() - asOfDate.getTime()) / (24 * 60 * 60 * 1000);
+  return Math.max(0, days);
+}
+
+// Assign a trade to its maturity bucket
+export function getMaturityBucket(
+  trade: Pick<FXTrade, 'maturityDate'>,
+  asOfDate: Date = new Date()
+): MaturityBucketLabel {
+  const days = daysToMaturity(trade, asOfDate);
+  return MATURITY_BUCKETS.find(bucket => days <= bucket.maxDays)!.label;
+}
+
+// Long, short, net and hedged notional per maturity bucket
+export function calculateExposureLadder(
+  trades: FXTrade[],
+  hedges: ForwardHedge[] = [],
+  asOfDate: Date = new Date()
+): ExposureBucket[] {
+  const ladder = MATURITY_BUCKETS.map(({ label }): ExposureBucket => ({
+    bucket: label,
+    tradeCount: 0,
+    longNotional: 0,
+    shortNotional: 0,
+    netNotional: 0,
+    hedgedNotional: 0,
+    residualNotional: 0,
+  }));
+  const rowFor = (position: Pick<FXTrade, 'maturityDate'>) =>
+    ladder.find(row => row.bucket === getMaturityBucket(position, asOfDate))!;
+
+  for (const trade of trades) {
+    const row = rowFor(trade);
+    row.tradeCount++;
+    if (trade.direction === 'long') row.longNotional += trade.notional;
+    else row.shortNotional += trade.notional;
+  }
+  for (const hedge of hedges) {
+    rowFor(hedge).hedgedNotional += hedge.direction === 'long' ? hedge.notional : -hedge.notional;
+  }
+  for (const row of ladder) {
+    row.netNotional = row.longNotional - row.shortNotional;
+    row.residualNotional = row.netNotional + row.hedgedNotional;
+  }
+
+  return ladder;
+}
+
+// Gross, net and absolute exposure of the book, in its base currency
+export function calculateExposureSummary(trades: FXTrade[]): ExposureSummary {
+  const grossNotional = trades.reduce((sum, trade) => sum + trade.notional, 0);
+  const netNotional = trades.reduce(
+    (sum, trade) => sum + (trade.direction === 'long' ? trade.notional : -trade.notional),
+    0
+  );
+  return { grossNotional, netNotional, absoluteNotional: Math.abs(netNotional) };
 }
 
 // Calculate hedge cost using simple forward premium
 export function calculateHedgeCost(
-  notionalUSD: number,
+  notional: number,
   forwardRate: number,
   spotRate: number,
   hedgeRatio: number = 1
 ): number {
   const forwardPoints = forwardRate - spotRate;
-  return notionalUSD * hedgeRatio * forwardPoints;
+  return notional * hedgeRatio * forwardPoints;
 }
 
 // Calculate optimal hedge ratio using simplified portfolio optimization
@@ -90,7 +526,8 @@ export function calculateOptimalHedgeRatio(
   hedgeCost: number,
   riskAversion: number = 0.5
 ): number {
-  // Simplified hedge ratio based on cost-benefit analysis
+  // Simplified hedge ratio based on cost-benefit analysis; nothing to hedge without exposure
+  if (totalExposure <= 0) return 0;
   const costPenalty = Math.abs(hedgeCost) / totalExposure;
   const volatilityBenefit = expectedVolatility * riskAversion;
   
@@ -98,77 +535,473 @@ export function calculateOptimalHedgeRatio(
   return Math.max(0, optimalRatio);
 }
 
-// Calculate Value at Risk (VaR) for 95% confidence
+// Calculate parametric Value at Risk (VaR) at any confidence level
 export function calculateVaR(
   totalExposure: number,
   volatility: number,
   confidenceLevel: number = 0.95,
   timeHorizon: number = 1 // days
 ): number {
-  // Using normal distribution approximation
-  const zScore = confidenceLevel === 0.95 ? 1.645 : 2.33; // 95% or 99%
-  const scaledVolatility = volatility * Math.sqrt(timeHorizon / 252); // Annualized to daily
+  // Using normal distribution approximation, square-root-of-time horizon scaling
+  const zScore = inverseNormalCDF(confidenceLevel);
+  const scaledVolatility = volatility * Math.sqrt(timeHorizon / 252); // Annualized to horizon
   return totalExposure * scaledVolatility * zScore;
 }
 
+// Parametric Expected Shortfall (CVaR): average loss beyond the VaR quantile under normality
+export function calculateExpectedShortfall(
+  totalExposure: number,
+  volatility: number,
+  confidenceLevel: number = 0.95,
+  timeHorizon: number = 1 // days
+): number {
+  const zScore = inverseNormalCDF(confidenceLevel);
+  const scaledVolatility = volatility * Math.sqrt(timeHorizon / 252);
+  return totalExposure * scaledVolatility * normalPDF(zScore) / (1 - confidenceLevel);
+}
+
+// Empirical VaR and Expected Shortfall from a sample of simulated or historical P&L outcomes
+export function calculateTailRisk(
+  pnls: number[],
+  confidenceLevel: number = 0.95
+): TailRiskMeasures {
+  if (pnls.length === 0) return { valueAtRisk: 0, expectedShortfall: 0 };
+
+  const sorted = [...pnls].sort((a, b) => a - b);
+  const tailCount = Math.max(1, Math.floor((1 - confidenceLevel) * sorted.length));
+  const tail = sorted.slice(0, tailCount);
+  const tailMean = tail.reduce((sum, pnl) => sum + pnl, 0) / tail.length;
+
+  return {
+    valueAtRisk: Math.max(0, -sorted[Math.min(sorted.length - 1, tailCount)]),
+    expectedShortfall: Math.max(0, -tailMean),
+  };
+}
+
+// VaR at the standard regulatory horizons plus the user's own horizon
+export function calculateVaRTermStructure(
+  totalExposure: number,
+  volatility: number,
+  confidenceLevel: number = 0.95,
+  timeHorizon: number = 1 // days
+): VaRTermPoint[] {
+  const horizons = [1, 10, 30];
+  if (!horizons.includes(timeHorizon)) horizons.push(timeHorizon);
+
+  return horizons
+    .sort((a, b) => a - b)
+    .map(horizon => ({
+      label: `${horizon}d`,
+      timeHorizon: horizon,
+      valueAtRisk: calculateVaR(totalExposure, volatility, confidenceLevel, horizon),
+    }));
+}
+
+// Historical-simulation VaR: replay every overlapping h-day move of the pair on today's book
+export function calculateHistoricalVaR(
+  trades: FXTrade[],
+  currentRate: number,
+  history: RateObservation[],
+  confidenceLevel: number = 0.95,
+  timeHorizon: number = 1, // days
+  worstCount: number = 5
+): HistoricalVaRResult | null {
+  const horizon = Math.max(1, Math.round(timeHorizon));
+  if (history.length <= horizon) return null;
+
+  const scenarios: HistoricalScenario[] = [];
+  for (let i = horizon; i < history.length; i++) {
+    const rateReturn = Math.log(history[i].rate / history[i - horizon].rate);
+    const shockedRate = currentRate * Math.exp(rateReturn);
+    scenarios.push({
+      date: history[i].date,
+      rateReturn,
+      shockedRate,
+      pnl: calculateUnhedgedPnL(trades, currentRate, shockedRate),
+    });
+  }
+
+  scenarios.sort((a, b) => a.pnl - b.pnl);
+  const { valueAtRisk, expectedShortfall } = calculateTailRisk(
+    scenarios.map(scenario => scenario.pnl),
+    confidenceLevel
+  );
+
+  return {
+    valueAtRisk,
+    expectedShortfall,
+    confidenceLevel,
+    timeHorizon: horizon,
+    observations: scenarios.length,
+    startDate: history[0].date,
+    endDate: history[history.length - 1].date,
+    worstDays: scenarios.slice(0, worstCount),
+  };
+}
+
 // Main risk calculation function
 export function calculateRiskMetrics(
   trades: FXTrade[],
-  scenario: RiskScenario
+  scenario: RiskScenario,
+  options: RiskMetricsOptions = {}
 ): RiskMetrics {
-  const totalExposureUSD = trades.reduce((sum, trade) => sum + trade.notionalUSD, 0);
-  
-  const unhedgedPnL = calculateUnhedgedPnL(trades, scenario.currentFXRate, scenario.shockedFXRate);
+  const {
+    confidenceLevel = 0.95,
+    timeHorizon = 1,
+    rateHistory,
+    simulatedPnLs,
+    hedgeRatioMethod = 'heuristic',
+    spotForwardHistory = [],
+    riskAversion = 10,
+    exposureBasis = 'net',
+    asOfDate = new Date(),
+    run,
+  } = options;
+
+  const exposure = calculateExposureSummary(trades);
+  const totalExposure = exposureBasis === 'net' ? exposure.absoluteNotional : exposure.grossNotional;
   
-  const forwardRate = calculateShockedFXRate(
-    scenario.currentFXRate,
-    scenario.interestRateShock,
-    0.25 // 3 months average maturity
-  );
+  const tradeValuations = revaluePortfolio(trades, scenario, asOfDate);
+  const unhedgedPnL = tradeValuations.reduce((sum, valuation) => sum + valuation.pnl, 0);
   
-  const hedgeCost = calculateHedgeCost(totalExposureUSD, forwardRate, scenario.currentFXRate);
+  // Forward premium locked per trade over its own remaining tenor at shocked rates;
+  // on a net basis opposing trades offset, signed so a one-directional book matches gross
+  const netSign = Math.sign(exposure.netNotional || 1);
+  const hedgeCost = trades.reduce((sum, trade, i) => {
+    const cost = calculateHedgeCost(
+      trade.notional,
+      calculateScenarioForward(scenario, scenario.currentFXRate, tradeValuations[i].tenorYears, true),
+      scenario.currentFXRate
+    );
+    if (exposureBasis === 'gross') return sum + cost;
+    return sum + (trade.direction === 'long' ? cost : -cost) * netSign;
+  }, 0);
   
-  const optimalHedgeRatio = calculateOptimalHedgeRatio(
-    totalExposureUSD,
-    scenario.volatility,
-    hedgeCost
-  );
+  // Annual carry paid per unit hedged: selling the base currency forward for a net long book, buying for net short
+  const oneYearForward = calculateScenarioForward(scenario, scenario.currentFXRate, 1, false);
+  const annualHedgeCost = netSign
+    * (scenario.currentFXRate - oneYearForward) / scenario.currentFXRate;
+
+  // Exposure valued at spot, so it shares a unit (MYR) with the hedge cost and P&L
+  const exposureMYR = totalExposure * scenario.currentFXRate;
+
+  const hedgeRatioEstimate = estimateHedgeRatio(hedgeRatioMethod, {
+    heuristicRatio: calculateOptimalHedgeRatio(exposureMYR, scenario.volatility, hedgeCost),
+    history: spotForwardHistory,
+    annualHedgeCost,
+    riskAversion,
+    confidenceLevel,
+    horizonDays: timeHorizon, // regress returns over the risk horizon, not daily moves
+  });
+  const optimalHedgeRatio = hedgeRatioEstimate.hedgeRatio;
   
   const hedgedPnL = unhedgedPnL * (1 - optimalHedgeRatio) - hedgeCost * optimalHedgeRatio;
   
-  const valueAtRisk = calculateVaR(totalExposureUSD, scenario.volatility);
+  // Parametric measures on the MYR value of the exposure, matching the MYR P&L of the other measures
+  const valueAtRisk = calculateVaR(exposureMYR, scenario.volatility, confidenceLevel, timeHorizon);
+  const varTermStructure = calculateVaRTermStructure(
+    exposureMYR,
+    scenario.volatility,
+    confidenceLevel,
+    timeHorizon
+  );
+  const expectedShortfall = calculateExpectedShortfall(
+    exposureMYR,
+    scenario.volatility,
+    confidenceLevel,
+    timeHorizon
+  );
+  const simulatedTailRisk = simulatedPnLs
+    ? calculateTailRisk(simulatedPnLs, confidenceLevel)
+    : undefined;
+
+  const historicalVaR = rateHistory
+    ? calculateHistoricalVaR(trades, scenario.currentFXRate, rateHistory, confidenceLevel, timeHorizon) ?? undefined
+    : undefined;
   
   return {
-    totalExposureUSD,
+    currency: FUNCTIONAL_CURRENCY,
+    totalExposure,
+    exposure,
+    exposureBasis,
     totalPnL: unhedgedPnL,
     unhedgedPnL,
     hedgedPnL,
     optimalHedgeRatio,
+    hedgeRatioEstimate,
     hedgeCost,
     valueAtRisk,
+    varConfidenceLevel: confidenceLevel,
+    varTimeHorizon: timeHorizon,
+    varTermStructure,
+    tradeValuations,
+    expectedShortfall,
+    simulatedTailRisk,
+    greeks: sumGreeks(calculateTradeGreeks(trades, scenario, asOfDate).map(position => position.greeks)),
+    historicalVaR,
+    run,
   };
 }
 
+// Risk metrics of each pair's trades under that pair's scenario, skipping pairs with no trades
+export function calculateRiskByPair(
+  trades: FXTrade[],
+  scenarios: Record<CurrencyPair, RiskScenario>,
+  options: PairRiskOptions = {}
+): PairRisk[] {
+  const { histories = {}, ...metricsOptions } = options;
+
+  return CURRENCY_PAIRS.flatMap(({ pair }) => {
+    const pairTrades = filterTradesByPair(trades, pair);
+    if (pairTrades.length === 0) return [];
+
+    const scenario = scenarios[pair];
+    const metrics = calculateRiskMetrics(pairTrades, scenario, { ...metricsOptions, ...histories[pair] });
+    return [{
+      pair,
+      tradeCount: pairTrades.length,
+      scenario,
+      exposureMYR: metrics.totalExposure * scenario.currentFXRate,
+      metrics,
+    }];
+  });
+}
+
+// Forward contracts that offset a share of each trade at today's forward to its maturity
+export function buildForwardHedges(
+  trades: FXTrade[],
+  hedgeRatio: number,
+  scenario: RiskScenario,
+  asOfDate: Date = new Date()
+): ForwardHedge[] {
+  if (hedgeRatio <= 0) return [];
+
+  return trades.map(trade => {
+    const tenorYears = daysToMaturity(trade, asOfDate) / 365;
+    return {
+      id: `HDG-${trade.id}`,
+      notional: trade.notional * hedgeRatio,
+      direction: trade.direction === 'long' ? 'short' : 'long',
+      forwardRate: calculateScenarioForward(scenario, scenario.currentFXRate, tenorYears, false),
+      maturityDate: trade.maturityDate,
+    };
+  });
+}
+
+// Value of forward hedges if the pair settles at the given rate; includes the locked-in forward points
+export function calculateHedgePnL(hedges: ForwardHedge[], settlementRate: number): number {
+  return hedges.reduce((sum, hedge) => {
+    const pnl = hedge.notional * (settlementRate - hedge.forwardRate);
+    return sum + (hedge.direction === 'long' ? pnl : -pnl);
+  }, 0);
+}
+
+// Base currency and MYR zero rates at a tenor off the scenario's curves, or the SOFR curve plus the differential
+export function calculateScenarioRates(
+  scenario: RiskScenario,
+  tenorYears: number,
+  shocked: boolean
+): { foreign: number; domestic: number } {
+  const curves = shocked ? scenario.shockedCurves : scenario.curves;
+  if (curves) {
+    return {
+      foreign: interpolateZeroRate(curves.foreign, tenorYears),
+      domestic: interpolateZeroRate(curves.domestic, tenorYears),
+    };
+  }
+
+  const foreign = interpolateZeroRate(DEFAULT_USD_CURVE, tenorYears);
+  const differential = (scenario.rateDifferential ?? DEFAULT_RATE_DIFFERENTIAL)
+    + (shocked ? scenario.interestRateShock / 10000 : 0);
+  return { foreign, domestic: foreign + differential };
+}
+
+// Bought puts against long trades and calls against short trades, struck off today's forward
+export function buildOptionHedges(
+  trades: FXTrade[],
+  hedgeRatio: number,
+  scenario: RiskScenario,
+  asOfDate: Date = new Date(),
+  moneyness: number = 0 // fraction out of the money, e.g. 0.02 for 2% OTM
+): OptionHedge[] {
+  if (hedgeRatio <= 0) return [];
+
+  return trades.map(trade => {
+    const tenorYears = daysToMaturity(trade, asOfDate) / 365;
+    const optionType: OptionType = trade.direction === 'long' ? 'put' : 'call';
+    const forward = calculateScenarioForward(scenario, scenario.currentFXRate, tenorYears, false);
+    const strike = optionType === 'put' ? forward * (1 - moneyness) : forward * (1 + moneyness);
+    const rates = calculateScenarioRates(scenario, tenorYears, false);
+    const { premium } = garmanKohlhagen({
+      optionType,
+      spotRate: scenario.currentFXRate,
+      strike,
+      tenorYears,
+      domesticRate: rates.domestic,
+      foreignRate: rates.foreign,
+      volatility: scenario.volatility,
+    });
+
+    return {
+      id: `OPT-${trade.id}`,
+      notional: trade.notional * hedgeRatio,
+      direction: 'long',
+      optionType,
+      strike,
+      premium,
+      maturityDate: trade.maturityDate,
+    };
+  });
+}
+
+// Total premium of the option hedges in MYR
+export function calculateOptionPremium(hedges: OptionHedge[]): number {
+  return hedges.reduce((sum, hedge) => {
+    const premium = hedge.notional * hedge.premium;
+    return sum + (hedge.direction === 'long' ? premium : -premium);
+  }, 0);
+}
+
+// Value of option hedges if the pair settles at the given rate, net of premium
+export function calculateOptionHedgePnL(hedges: OptionHedge[], settlementRate: number): number {
+  return hedges.reduce((sum, hedge) => {
+    const pnl = hedge.notional * (optionPayoff(hedge.optionType, hedge.strike, settlementRate) - hedge.premium);
+    return sum + (hedge.direction === 'long' ? pnl : -pnl);
+  }, 0);
+}
+
+// Sensitivities of a forward position bought or sold at the contract rate
+function forwardPositionGreeks(
+  notional: number,
+  direction: 'long' | 'short',
+  contractRate: number,
+  maturityDate: Date,
+  scenario: RiskScenario,
+  asOfDate: Date
+): Greeks {
+  const tenorYears = daysToMaturity({ maturityDate }, asOfDate) / 365;
+  const rates = calculateScenarioRates(scenario, tenorYears, false);
+  const greeks = calculateForwardGreeks(scenario.currentFXRate, contractRate, tenorYears, rates.domestic, rates.foreign);
+  return scaleGreeks(greeks, direction === 'long' ? notional : -notional);
+}
+
+// Per-trade sensitivities, each trade struck at today's forward to its maturity
+export function calculateTradeGreeks(
+  trades: FXTrade[],
+  scenario: RiskScenario,
+  asOfDate: Date = new Date()
+): PositionGreeks[] {
+  return trades.map(trade => {
+    const tenorYears = daysToMaturity(trade, asOfDate) / 365;
+    const contractRate = calculateScenarioForward(scenario, scenario.currentFXRate, tenorYears, false);
+    return {
+      id: trade.id,
+      maturityDate: trade.maturityDate,
+      greeks: forwardPositionGreeks(
+        trade.notional, trade.direction, contractRate, trade.maturityDate, scenario, asOfDate
+      ),
+    };
+  });
+}
+
+// Sensitivities of forward and option hedges
+export function calculateHedgeGreeks(
+  forwardHedges: ForwardHedge[],
+  optionHedges: OptionHedge[],
+  scenario: RiskScenario,
+  asOfDate: Date = new Date()
+): PositionGreeks[] {
+  const forwards = forwardHedges.map(hedge => ({
+    id: hedge.id,
+    maturityDate: hedge.maturityDate,
+    greeks: forwardPositionGreeks(
+      hedge.notional, hedge.direction, hedge.forwardRate, hedge.maturityDate, scenario, asOfDate
+    ),
+  }));
+
+  const options = optionHedges.map(hedge => {
+    const tenorYears = daysToMaturity(hedge, asOfDate) / 365;
+    const rates = calculateScenarioRates(scenario, tenorYears, false);
+    const greeks = calculateOptionGreeks({
+      optionType: hedge.optionType,
+      spotRate: scenario.currentFXRate,
+      strike: hedge.strike,
+      tenorYears,
+      domesticRate: rates.domestic,
+      foreignRate: rates.foreign,
+      volatility: scenario.volatility,
+    });
+    return {
+      id: hedge.id,
+      maturityDate: hedge.maturityDate,
+      greeks: scaleGreeks(greeks, hedge.direction === 'long' ? hedge.notional : -hedge.notional),
+    };
+  });
+
+  return [...forwards, ...options];
+}
+
+// Trade, hedge and net sensitivities summed per maturity bucket
+export function buildGreeksLadder(
+  tradeGreeks: PositionGreeks[],
+  hedgeGreeks: PositionGreeks[],
+  asOfDate: Date = new Date()
+): GreeksLadderRow[] {
+  const inBucket = (positions: PositionGreeks[], bucket: MaturityBucketLabel) => sumGreeks(
+    positions
+      .filter(position => getMaturityBucket(position, asOfDate) === bucket)
+      .map(position => position.greeks)
+  );
+
+  return MATURITY_BUCKETS.map(({ label }) => {
+    const trades = inBucket(tradeGreeks, label);
+    const hedges = inBucket(hedgeGreeks, label);
+    return { bucket: label, trades, hedges, net: sumGreeks([trades, hedges]) };
+  });
+}
+
 // Generate P&L sensitivity data for charting
 export function generatePnLSensitivity(
   trades: FXTrade[],
   baseRate: number,
-  shockRange: number = 0.5
-): Array<{ fxRate: number; pnl: number; hedgedPnl: number }> {
-  const sensitivity = [];
+  shockRange: number = 0.5,
+  options: SensitivityOptions = {}
+): SensitivityPoint[] {
+  const { hedgeRatio = 0, overlayRatios = [], scenario, asOfDate = new Date() } = options;
+  const hedgeScenario = scenario
+    ?? { currentFXRate: baseRate, shockedFXRate: baseRate, interestRateShock: 0, volatility: 0 };
+  const hedgesFor = (ratio: number) => buildForwardHedges(trades, ratio, hedgeScenario, asOfDate);
+
+  const hedges = options.hedges ?? hedgesFor(hedgeRatio);
+  const { optionHedges } = options;
+  const overlays = overlayRatios.map(ratio => ({ key: hedgeOverlayKey(ratio), hedges: hedgesFor(ratio) }));
+
+  const sensitivity: SensitivityPoint[] = [];
   const steps = 50;
   
   for (let i = 0; i <= steps; i++) {
     const rate = baseRate - shockRange + (2 * shockRange * i) / steps;
     const pnl = calculateUnhedgedPnL(trades, baseRate, rate);
-    const hedgedPnl = pnl * 0.3; // Assuming 70% hedge ratio
+    const hedgedPnl = pnl + calculateHedgePnL(hedges, rate);
     
-    sensitivity.push({
+    const point: SensitivityPoint = {
       fxRate: rate,
       pnl: pnl / 1000000, // Convert to millions
       hedgedPnl: hedgedPnl / 1000000,
-    });
+    };
+    if (optionHedges) {
+      point.optionHedgedPnl = (pnl + calculateOptionHedgePnL(optionHedges, rate)) / 1000000;
+    }
+    for (const overlay of overlays) {
+      point[overlay.key] = (pnl + calculateHedgePnL(overlay.hedges, rate)) / 1000000;
+    }
+    sensitivity.push(point);
   }
   
   return sensitivity;
-}
\ No newline at end of file
+}
+
+// Chart data key for a hedge-ratio overlay line, e.g. hedged_50
+export function hedgeOverlayKey(ratio: number): string {
+  return `hedged_${Math.round(ratio * 100)}`;
+}
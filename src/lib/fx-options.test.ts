@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateForwardGreeks,
+  calculateOptionGreeks,
+  garmanKohlhagen,
+  type GarmanKohlhagenInputs
+} from "./fx-options";
+
+const base: GarmanKohlhagenInputs = {
+  optionType: 'call',
+  spotRate: 4.45,
+  strike: 4.5,
+  tenorYears: 0.5,
+  domesticRate: 0.036,
+  foreignRate: 0.042,
+  volatility: 0.08,
+};
+
+const premium = (overrides: Partial<GarmanKohlhagenInputs>) => garmanKohlhagen({ ...base, ...overrides }).premium;
+
+describe('garmanKohlhagen', () => {
+  it('satisfies put-call parity: C − P = S·DF_foreign − K·DF_domestic', () => {
+    [4.0, 4.45, 5.0].forEach(strike => {
+      [0.05, 0.5, 2].forEach(tenorYears => {
+        const parity = base.spotRate * Math.exp(-base.foreignRate * tenorYears)
+          - strike * Math.exp(-base.domesticRate * tenorYears);
+        expect(premium({ strike, tenorYears }) - premium({ strike, tenorYears, optionType: 'put' })).toBeCloseTo(parity, 10);
+      });
+    });
+  });
+
+  it('prices an expired or zero-volatility option at its discounted forward intrinsic value', () => {
+    expect(premium({ tenorYears: 0, spotRate: 4.6 })).toBeCloseTo(0.1, 12);
+    expect(premium({ tenorYears: 0, optionType: 'put', spotRate: 4.6 })).toBe(0);
+    const forward = base.spotRate * Math.exp((base.domesticRate - base.foreignRate) * base.tenorYears);
+    expect(premium({ volatility: 0, optionType: 'put' }))
+      .toBeCloseTo(Math.exp(-base.domesticRate * base.tenorYears) * (base.strike - forward), 12);
+  });
+
+  it('is worth more with more volatility or time', () => {
+    expect(premium({ volatility: 0.12 })).toBeGreaterThan(premium({}));
+    expect(premium({ tenorYears: 1 })).toBeGreaterThan(premium({}));
+  });
+});
+
+describe('calculateOptionGreeks', () => {
+  it('keeps call and put deltas a foreign discount factor apart', () => {
+    const call = calculateOptionGreeks(base);
+    const put = calculateOptionGreeks({ ...base, optionType: 'put' });
+    expect(call.delta - put.delta).toBeCloseTo(Math.exp(-base.foreignRate * base.tenorYears), 10);
+    expect(call.gamma).toBeCloseTo(put.gamma, 12);
+    expect(call.vega).toBeCloseTo(put.vega, 12);
+  });
+
+  // Loose tolerances: the normal CDF approximation is good to 7.5e-8, which bumping amplifies
+  it('matches finite differences of the premium', () => {
+    const greeks = calculateOptionGreeks(base);
+    const bump = 1e-4;
+    const delta = (premium({ spotRate: base.spotRate + bump }) - premium({ spotRate: base.spotRate - bump })) / (2 * bump);
+    const vega = (premium({ volatility: base.volatility + bump }) - premium({ volatility: base.volatility - bump })) / (2 * bump) * 0.01;
+    const rhoDomestic = (premium({ domesticRate: base.domesticRate + bump }) - premium({ domesticRate: base.domesticRate - bump })) / (2 * bump) * 0.0001;
+
+    expect(greeks.delta).toBeCloseTo(delta, 4);
+    expect(greeks.vega).toBeCloseTo(vega, 6);
+    expect(greeks.rhoDomestic).toBeCloseTo(rhoDomestic, 8);
+  });
+});
+
+describe('calculateForwardGreeks', () => {
+  it('has a discounted unit delta and no optionality', () => {
+    const greeks = calculateForwardGreeks(4.45, 4.43, 0.5, 0.036, 0.042);
+    expect(greeks.delta).toBeCloseTo(Math.exp(-0.042 * 0.5), 12);
+    expect(greeks.gamma).toBe(0);
+    expect(greeks.vega).toBe(0);
+  });
+});
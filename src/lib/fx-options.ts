@@ -0,0 +1,138 @@
+// Vanilla FX Options on any pair against MYR: Garman-Kohlhagen pricing (MYR domestic, base currency foreign)
+
+import { normalCDF, normalPDF } from "./statistics";
+
+export type OptionType = 'call' | 'put'; // right to buy / sell the base currency against MYR
+
+export interface GarmanKohlhagenInputs {
+  optionType: OptionType;
+  spotRate: number; // MYR per unit of base currency
+  strike: number; // MYR per unit of base currency
+  tenorYears: number;
+  domesticRate: number; // MYR, continuously compounded
+  foreignRate: number; // base currency, continuously compounded
+  volatility: number; // annualized
+}
+
+// Sensitivities in the pair's units: delta in the base currency, gamma as base-currency delta change
+// per 1% spot move; vega per vol point, rhos per basis point and theta per calendar day in the quote currency (MYR)
+export interface Greeks {
+  delta: number;
+  gamma: number;
+  vega: number;
+  rhoForeign: number;
+  rhoDomestic: number;
+  theta: number;
+}
+
+export const ZERO_GREEKS: Greeks = { delta: 0, gamma: 0, vega: 0, rhoForeign: 0, rhoDomestic: 0, theta: 0 };
+
+export interface OptionValuation {
+  premium: number; // MYR per unit of base-currency notional
+  d1: number;
+  d2: number;
+}
+
+// Payoff per unit of base-currency notional if the pair settles at the given rate
+export function optionPayoff(optionType: OptionType, strike: number, settlementRate: number): number {
+  return optionType === 'call'
+    ? Math.max(0, settlementRate - strike)
+    : Math.max(0, strike - settlementRate);
+}
+
+// Garman-Kohlhagen: Black-Scholes with the foreign (base currency) rate as a continuous dividend yield
+export function garmanKohlhagen(inputs: GarmanKohlhagenInputs): OptionValuation {
+  const { optionType, spotRate, strike, tenorYears, domesticRate, foreignRate, volatility } = inputs;
+
+  if (tenorYears <= 0 || volatility <= 0) {
+    const forward = spotRate * Math.exp((domesticRate - foreignRate) * Math.max(0, tenorYears));
+    const discount = Math.exp(-domesticRate * Math.max(0, tenorYears));
+    return { premium: discount * optionPayoff(optionType, strike, forward), d1: 0, d2: 0 };
+  }
+
+  const sqrtT = Math.sqrt(tenorYears);
+  const d1 = (Math.log(spotRate / strike) + (domesticRate - foreignRate + 0.5 * volatility * volatility) * tenorYears)
+    / (volatility * sqrtT);
+  const d2 = d1 - volatility * sqrtT;
+  const foreignDiscount = Math.exp(-foreignRate * tenorYears);
+  const domesticDiscount = Math.exp(-domesticRate * tenorYears);
+
+  const premium = optionType === 'call'
+    ? spotRate * foreignDiscount * normalCDF(d1) - strike * domesticDiscount * normalCDF(d2)
+    : strike * domesticDiscount * normalCDF(-d2) - spotRate * foreignDiscount * normalCDF(-d1);
+
+  return { premium, d1, d2 };
+}
+
+// Garman-Kohlhagen sensitivities per unit of bought base-currency notional
+export function calculateOptionGreeks(inputs: GarmanKohlhagenInputs): Greeks {
+  const { optionType, spotRate, strike, tenorYears, domesticRate, foreignRate, volatility } = inputs;
+  if (tenorYears <= 0 || volatility <= 0) return ZERO_GREEKS;
+
+  const { d1, d2 } = garmanKohlhagen(inputs);
+  const sqrtT = Math.sqrt(tenorYears);
+  const foreignDiscount = Math.exp(-foreignRate * tenorYears);
+  const domesticDiscount = Math.exp(-domesticRate * tenorYears);
+  const sign = optionType === 'call' ? 1 : -1;
+  const nd1 = normalCDF(sign * d1);
+  const nd2 = normalCDF(sign * d2);
+  const density = spotRate * foreignDiscount * normalPDF(d1);
+
+  const gamma = foreignDiscount * normalPDF(d1) / (spotRate * volatility * sqrtT);
+  const thetaPerYear = -density * volatility / (2 * sqrtT)
+    + sign * (foreignRate * spotRate * foreignDiscount * nd1 - domesticRate * strike * domesticDiscount * nd2);
+
+  return {
+    delta: sign * foreignDiscount * nd1,
+    gamma: gamma * spotRate * 0.01,
+    vega: density * sqrtT * 0.01,
+    rhoForeign: -sign * spotRate * tenorYears * foreignDiscount * nd1 * 0.0001,
+    rhoDomestic: sign * strike * tenorYears * domesticDiscount * nd2 * 0.0001,
+    theta: thetaPerYear / 365,
+  };
+}
+
+// Sensitivities of a bought base-currency forward (value S·DF_foreign − K·DF_MYR) per unit of notional
+export function calculateForwardGreeks(
+  spotRate: number,
+  contractRate: number,
+  tenorYears: number,
+  domesticRate: number,
+  foreignRate: number
+): Greeks {
+  if (tenorYears <= 0) return ZERO_GREEKS;
+
+  const foreignDiscount = Math.exp(-foreignRate * tenorYears);
+  const domesticDiscount = Math.exp(-domesticRate * tenorYears);
+
+  return {
+    delta: foreignDiscount,
+    gamma: 0,
+    vega: 0,
+    rhoForeign: -spotRate * tenorYears * foreignDiscount * 0.0001,
+    rhoDomestic: contractRate * tenorYears * domesticDiscount * 0.0001,
+    theta: (foreignRate * spotRate * foreignDiscount - domesticRate * contractRate * domesticDiscount) / 365,
+  };
+}
+
+export function scaleGreeks(greeks: Greeks, factor: number): Greeks {
+  return {
+    delta: greeks.delta * factor,
+    gamma: greeks.gamma * factor,
+    vega: greeks.vega * factor,
+    rhoForeign: greeks.rhoForeign * factor,
+    rhoDomestic: greeks.rhoDomestic * factor,
+    theta: greeks.theta * factor,
+  };
+}
+
+export function sumGreeks(list: Greeks[]): Greeks {
+  return list.reduce((total, greeks) => ({
+    delta: total.delta + greeks.delta,
+    gamma: total.gamma + greeks.gamma,
+    vega: total.vega + greeks.vega,
+    rhoForeign: total.rhoForeign + greeks.rhoForeign,
+    rhoDomestic: total.rhoDomestic + greeks.rhoDomestic,
+    theta: total.theta + greeks.theta,
+  }), ZERO_GREEKS);
+}
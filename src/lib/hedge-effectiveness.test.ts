@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import type { ForwardHedge, FXTrade } from "./fx-calculations";
+import type { SpotForwardObservation } from "./hedge-ratio";
+import {
+  isWithinEffectivenessBand,
+  runEffectivenessTests,
+  simulateSpotForwardSeries
+} from "./hedge-effectiveness";
+
+const start = new Date(2026, 0, 1);
+const receivable: FXTrade = {
+  id: 'R1',
+  notional: 1000000,
+  tradeDate: start,
+  maturityDate: new Date(2026, 11, 31),
+  direction: 'long',
+};
+const forwardSale = (notional: number): ForwardHedge => ({
+  id: 'HDG-R1',
+  notional,
+  direction: 'short',
+  forwardRate: 4.5,
+  maturityDate: receivable.maturityDate,
+});
+
+// Forward equal to spot, so the offset ratio is the hedge's notional over the hedged item's
+const series = (rates: number[]): SpotForwardObservation[] =>
+  rates.map((rate, day) => ({ date: new Date(start.getTime() + day * 24 * 60 * 60 * 1000), spot: rate, forward: rate }));
+
+describe('dollar-offset band', () => {
+  it('includes both IFRS 9 boundaries and nothing beyond them', () => {
+    expect(isWithinEffectivenessBand(0.8)).toBe(true);
+    expect(isWithinEffectivenessBand(1.25)).toBe(true);
+    expect(isWithinEffectivenessBand(0.7999)).toBe(false);
+    expect(isWithinEffectivenessBand(1.2501)).toBe(false);
+  });
+
+  it('passes a hedge covering exactly 80% or 125% of the move and fails one just outside', () => {
+    const rates = series([4, 5]);
+    const test = (notional: number) =>
+      runEffectivenessTests([receivable], [forwardSale(notional)], rates, { periodDays: 1 }).cumulative;
+
+    expect(test(800000)).toMatchObject({ offsetRatio: 0.8, effective: true });
+    expect(test(1250000)).toMatchObject({ offsetRatio: 1.25, effective: true });
+    expect(test(799000).effective).toBe(false);
+    expect(test(1251000).effective).toBe(false);
+  });
+});
+
+describe('runEffectivenessTests', () => {
+  it('finds a full forward hedge effective on both tests', () => {
+    const report = runEffectivenessTests([receivable], [forwardSale(1000000)], series([4.4, 4.5, 4.45, 4.6, 4.55]), {
+      periodDays: 1,
+    });
+
+    expect(report.periods).toHaveLength(4);
+    report.periods.forEach(period => expect(period.offsetRatio).toBeCloseTo(1, 12));
+    expect(report.regression.slope).toBeCloseTo(-1, 12);
+    expect(report.regression.rSquared).toBeCloseTo(1, 12);
+    expect(report.effective).toBe(true);
+  });
+
+  it('fails the regression test with too few periods', () => {
+    const report = runEffectivenessTests([receivable], [forwardSale(1000000)], series([4.4, 4.5, 4.6]), { periodDays: 1 });
+    expect(report.regression.effective).toBe(false);
+    expect(report.effective).toBe(false);
+  });
+
+  it('needs at least two observations', () => {
+    expect(() => runEffectivenessTests([receivable], [], series([4.5]))).toThrow(RangeError);
+  });
+
+  it('tests only the most recent periods', () => {
+    const simulated = simulateSpotForwardSeries({ spotRate: 4.5, forwardPoints: 0.995, volatility: 0.08, days: 600, seed: 3 });
+    const report = runEffectivenessTests([receivable], [forwardSale(1000000)], simulated, { periodDays: 21, periodCount: 12 });
+
+    expect(report.periods).toHaveLength(12);
+    expect(report.cumulative.end).toEqual(simulated[simulated.length - 1].date);
+    expect(report.effective).toBe(true);
+  });
+});
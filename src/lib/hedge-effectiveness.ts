@@ -0,0 +1,178 @@
+// Hedge Effectiveness Testing (IFRS 9 / MFRS 9): dollar-offset and regression tests
+
+import type { FXTrade, ForwardHedge } from "./fx-calculations";
+import type { SpotForwardObservation } from "./hedge-ratio";
+import { createSeededRandom, sampleStandardNormal, DEFAULT_SEED } from "./random";
+
+export type EffectivenessSource = 'historical' | 'simulated';
+
+// Offset ratios outside this band fail the dollar-offset test
+export const EFFECTIVENESS_LOWER_BOUND = 0.8;
+export const EFFECTIVENESS_UPPER_BOUND = 1.25;
+export const MIN_REGRESSION_R_SQUARED = 0.8;
+
+export interface EffectivenessPeriod {
+  start: Date;
+  end: Date;
+  hedgedItemChange: number; // MYR
+  instrumentChange: number; // MYR
+  offsetRatio: number; // -instrument / hedged item
+  effective: boolean;
+}
+
+export interface RegressionTest {
+  slope: number;
+  intercept: number;
+  rSquared: number;
+  effective: boolean;
+}
+
+export interface EffectivenessReport {
+  source: EffectivenessSource;
+  periods: EffectivenessPeriod[];
+  cumulative: EffectivenessPeriod;
+  regression: RegressionTest;
+  effective: boolean;
+}
+
+export interface EffectivenessOptions {
+  source?: EffectivenessSource;
+  periodDays?: number; // business days per test period
+  periodCount?: number;
+}
+
+export interface SimulatedSeriesOptions {
+  spotRate: number;
+  forwardPoints: number; // forward / spot ratio
+  volatility: number; // annualized
+  days: number;
+  basisVolatility?: number; // daily noise in the forward/spot ratio
+  seed?: number;
+  startDate?: Date;
+}
+
+const signed = (notional: number, direction: 'long' | 'short') =>
+  direction === 'long' ? notional : -notional;
+
+export function isWithinEffectivenessBand(ratio: number): boolean {
+  return ratio >= EFFECTIVENESS_LOWER_BOUND && ratio <= EFFECTIVENESS_UPPER_BOUND;
+}
+
+// Daily spot and forward series from geometric Brownian motion with a noisy forward basis
+export function simulateSpotForwardSeries(options: SimulatedSeriesOptions): SpotForwardObservation[] {
+  const {
+    spotRate,
+    forwardPoints,
+    volatility,
+    days,
+    basisVolatility = 0.0003,
+    seed = DEFAULT_SEED,
+    startDate = new Date(),
+  } = options;
+
+  const random = createSeededRandom(seed);
+  const dt = 1 / 252;
+  const series: SpotForwardObservation[] = [];
+  let spot = spotRate;
+
+  for (let day = 0; day <= days; day++) {
+    if (day > 0) {
+      spot *= Math.exp(-0.5 * volatility * volatility * dt + volatility * Math.sqrt(dt) * sampleStandardNormal(random));
+    }
+    const basis = 1 + basisVolatility * sampleStandardNormal(random);
+    series.push({
+      date: new Date(startDate.getTime() + day * 24 * 60 * 60 * 1000),
+      spot,
+      forward: spot * forwardPoints * basis,
+    });
+  }
+
+  return series;
+}
+
+function buildPeriod(
+  start: SpotForwardObservation,
+  end: SpotForwardObservation,
+  hedgedNotional: number,
+  instrumentNotional: number
+): EffectivenessPeriod {
+  const hedgedItemChange = hedgedNotional * (end.spot - start.spot);
+  const instrumentChange = instrumentNotional * (end.forward - start.forward);
+  const offsetRatio = hedgedItemChange === 0 ? 0 : -instrumentChange / hedgedItemChange;
+
+  return {
+    start: start.date,
+    end: end.date,
+    hedgedItemChange,
+    instrumentChange,
+    offsetRatio,
+    effective: isWithinEffectivenessBand(offsetRatio),
+  };
+}
+
+// Regress instrument value changes on hedged item changes; an effective hedge has slope in -1.25..-0.8
+function runRegressionTest(periods: EffectivenessPeriod[]): RegressionTest {
+  const n = periods.length;
+  if (n < 3) return { slope: 0, intercept: 0, rSquared: 0, effective: false };
+
+  const meanX = periods.reduce((sum, p) => sum + p.hedgedItemChange, 0) / n;
+  const meanY = periods.reduce((sum, p) => sum + p.instrumentChange, 0) / n;
+
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (const p of periods) {
+    const dx = p.hedgedItemChange - meanX;
+    const dy = p.instrumentChange - meanY;
+    sxy += dx * dy;
+    sxx += dx * dx;
+    syy += dy * dy;
+  }
+  if (sxx === 0 || syy === 0) return { slope: 0, intercept: meanY, rSquared: 0, effective: false };
+
+  const slope = sxy / sxx;
+  const rSquared = (sxy * sxy) / (sxx * syy);
+
+  return {
+    slope,
+    intercept: meanY - slope * meanX,
+    rSquared,
+    effective: isWithinEffectivenessBand(-slope) && rSquared >= MIN_REGRESSION_R_SQUARED,
+  };
+}
+
+// Test designated hedging instruments against the hedged trades over the most recent periods
+export function runEffectivenessTests(
+  hedgedItems: FXTrade[],
+  instruments: ForwardHedge[],
+  series: SpotForwardObservation[],
+  options: EffectivenessOptions = {}
+): EffectivenessReport {
+  const { source = 'historical', periodDays = 21, periodCount = 24 } = options;
+  if (series.length < 2) {
+    throw new RangeError('Effectiveness testing needs at least two observations');
+  }
+
+  const hedgedNotional = hedgedItems.reduce((sum, trade) => sum + signed(trade.notional, trade.direction), 0);
+  const instrumentNotional = instruments.reduce((sum, hedge) => sum + signed(hedge.notional, hedge.direction), 0);
+
+  const step = Math.max(1, Math.round(periodDays));
+  const firstIndex = Math.max(0, series.length - 1 - step * periodCount);
+  const periods: EffectivenessPeriod[] = [];
+
+  for (let i = firstIndex; i + step < series.length; i += step) {
+    periods.push(buildPeriod(series[i], series[i + step], hedgedNotional, instrumentNotional));
+  }
+
+  const lastIndex = periods.length > 0 ? firstIndex + step * periods.length : series.length - 1;
+  const cumulative = buildPeriod(series[firstIndex], series[lastIndex], hedgedNotional, instrumentNotional);
+  const regression = runRegressionTest(periods);
+
+  return {
+    source,
+    periods,
+    cumulative,
+    regression,
+    effective: cumulative.effective && regression.effective,
+  };
+}
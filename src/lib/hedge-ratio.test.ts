@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  estimateHedgeRatio,
+  estimateMinimumVarianceHedgeRatio,
+  type HedgeRatioInputs,
+  type SpotForwardObservation
+} from "./hedge-ratio";
+import { createSeededRandom, sampleStandardNormal } from "./random";
+
+// Forward follows a random walk; spot moves beta times the forward's log return plus independent noise
+function simulateHistory(days: number, beta: number, noise: number, seed: number = 7): SpotForwardObservation[] {
+  const random = createSeededRandom(seed);
+  const history: SpotForwardObservation[] = [];
+  let logForward = Math.log(4.5);
+  let logSpot = Math.log(4.45);
+  for (let day = 0; day < days; day++) {
+    history.push({ date: new Date(2020, 0, 1 + day), spot: Math.exp(logSpot), forward: Math.exp(logForward) });
+    const forwardReturn = 0.006 * sampleStandardNormal(random);
+    logForward += forwardReturn;
+    logSpot += beta * forwardReturn + noise * sampleStandardNormal(random);
+  }
+  return history;
+}
+
+const inputs = (history: SpotForwardObservation[], overrides: Partial<HedgeRatioInputs> = {}): HedgeRatioInputs => ({
+  heuristicRatio: 0.4,
+  history,
+  annualHedgeCost: 0,
+  riskAversion: 10,
+  ...overrides,
+});
+
+describe('estimateMinimumVarianceHedgeRatio', () => {
+  it('recovers the slope of spot on forward returns exactly without noise', () => {
+    const estimate = estimateMinimumVarianceHedgeRatio(simulateHistory(250, 0.8, 0))!;
+    expect(estimate.hedgeRatio).toBeCloseTo(0.8, 10);
+    expect(estimate.rSquared).toBeCloseTo(1, 10);
+    expect(estimate.standardError).toBeCloseTo(0, 10);
+  });
+
+  it('brackets the true slope with its confidence interval', () => {
+    const estimate = estimateMinimumVarianceHedgeRatio(simulateHistory(1000, 0.9, 0.002), 0.95)!;
+    expect(estimate.lower).toBeLessThan(0.9);
+    expect(estimate.upper).toBeGreaterThan(0.9);
+    expect(estimate.forwardVolatility).toBeCloseTo(0.006 * Math.sqrt(252), 2);
+  });
+
+  it('uses non-overlapping windows of the horizon', () => {
+    const history = simulateHistory(301, 0.8, 0.002);
+    expect(estimateMinimumVarianceHedgeRatio(history, 0.95, 1)!.observations).toBe(300);
+    expect(estimateMinimumVarianceHedgeRatio(history, 0.95, 30)!.observations).toBe(10);
+    expect(estimateMinimumVarianceHedgeRatio(history.slice(0, 60), 0.95, 30)).toBeNull();
+  });
+});
+
+describe('estimateHedgeRatio', () => {
+  const history = simulateHistory(500, 0.85, 0.002);
+
+  it('falls back to the heuristic without enough history', () => {
+    expect(estimateHedgeRatio('minimum-variance', inputs([]))).toEqual({ method: 'heuristic', hedgeRatio: 0.4 });
+  });
+
+  it('shades the minimum-variance ratio by the carry cost', () => {
+    const minimumVariance = estimateHedgeRatio('minimum-variance', inputs(history));
+    const free = estimateHedgeRatio('mean-variance', inputs(history));
+    const costly = estimateHedgeRatio('mean-variance', inputs(history, { annualHedgeCost: 0.01 }));
+
+    expect(free.hedgeRatio).toBeCloseTo(minimumVariance.hedgeRatio, 12);
+    expect(costly.hedgeRatio).toBeLessThan(free.hedgeRatio);
+    expect(costly.upper! - costly.lower!).toBeCloseTo(free.upper! - free.lower!, 12);
+  });
+
+  it('clamps ratios to [0, 1]', () => {
+    const expensive = estimateHedgeRatio('mean-variance', inputs(history, { annualHedgeCost: 1 }));
+    expect(expensive.hedgeRatio).toBe(0);
+    const overHedged = estimateHedgeRatio('minimum-variance', inputs(simulateHistory(250, 1.5, 0)));
+    expect(overHedged.hedgeRatio).toBe(1);
+  });
+});
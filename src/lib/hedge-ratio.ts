@@ -0,0 +1,152 @@
+// Hedge Ratio Estimation: heuristic, minimum-variance and mean-variance utility methods
+
+import { inverseNormalCDF } from "./statistics";
+
+export interface SpotForwardObservation {
+  date: Date;
+  spot: number;
+  forward: number;
+}
+
+export type HedgeRatioMethod = 'heuristic' | 'minimum-variance' | 'mean-variance';
+
+export const HEDGE_RATIO_METHODS: Array<{ method: HedgeRatioMethod; label: string }> = [
+  { method: 'heuristic', label: 'Cost/Volatility Heuristic' },
+  { method: 'minimum-variance', label: 'Minimum Variance' },
+  { method: 'mean-variance', label: 'Mean-Variance Utility' },
+];
+
+export interface MinimumVarianceEstimate {
+  hedgeRatio: number; // ρ·σ_spot/σ_fwd, the OLS slope of spot on forward returns
+  standardError: number;
+  lower: number;
+  upper: number;
+  confidenceLevel: number;
+  correlation: number;
+  spotVolatility: number; // annualized
+  forwardVolatility: number; // annualized
+  rSquared: number; // variance reduction achieved in-sample
+  observations: number;
+}
+
+export interface HedgeRatioEstimate {
+  method: HedgeRatioMethod;
+  hedgeRatio: number; // clamped to [0, 1]
+  lower?: number;
+  upper?: number;
+  minimumVariance?: MinimumVarianceEstimate;
+}
+
+export interface HedgeRatioInputs {
+  heuristicRatio: number;
+  history: SpotForwardObservation[];
+  annualHedgeCost: number; // expected carry cost of the hedge per unit notional per year
+  riskAversion: number;
+  confidenceLevel?: number;
+  horizonDays?: number;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Regress spot log returns on forward log returns over non-overlapping h-day windows
+export function estimateMinimumVarianceHedgeRatio(
+  history: SpotForwardObservation[],
+  confidenceLevel: number = 0.95,
+  horizonDays: number = 1
+): MinimumVarianceEstimate | null {
+  const step = Math.max(1, Math.round(horizonDays));
+  const spotReturns: number[] = [];
+  const forwardReturns: number[] = [];
+
+  for (let i = step; i < history.length; i += step) {
+    spotReturns.push(Math.log(history[i].spot / history[i - step].spot));
+    forwardReturns.push(Math.log(history[i].forward / history[i - step].forward));
+  }
+
+  const n = spotReturns.length;
+  if (n < 3) return null;
+
+  const meanSpot = spotReturns.reduce((sum, r) => sum + r, 0) / n;
+  const meanForward = forwardReturns.reduce((sum, r) => sum + r, 0) / n;
+
+  let covariance = 0;
+  let spotVariance = 0;
+  let forwardVariance = 0;
+  for (let i = 0; i < n; i++) {
+    const ds = spotReturns[i] - meanSpot;
+    const df = forwardReturns[i] - meanForward;
+    covariance += ds * df;
+    spotVariance += ds * ds;
+    forwardVariance += df * df;
+  }
+  if (forwardVariance === 0 || spotVariance === 0) return null;
+
+  const hedgeRatio = covariance / forwardVariance;
+  const correlation = covariance / Math.sqrt(spotVariance * forwardVariance);
+  const rSquared = correlation * correlation;
+
+  // OLS slope standard error from the residual variance; rounding can push a perfect fit's R² past 1
+  const residualVariance = (spotVariance * Math.max(0, 1 - rSquared)) / (n - 2);
+  const standardError = Math.sqrt(residualVariance / forwardVariance);
+  const z = inverseNormalCDF(0.5 + confidenceLevel / 2);
+  const annualize = Math.sqrt(252 / step);
+
+  return {
+    hedgeRatio,
+    standardError,
+    lower: hedgeRatio - z * standardError,
+    upper: hedgeRatio + z * standardError,
+    confidenceLevel,
+    correlation,
+    spotVolatility: Math.sqrt(spotVariance / (n - 1)) * annualize,
+    forwardVolatility: Math.sqrt(forwardVariance / (n - 1)) * annualize,
+    rSquared,
+    observations: n,
+  };
+}
+
+// Mean-variance utility: shade the minimum-variance ratio by the hedge's expected carry cost
+export function calculateMeanVarianceHedgeRatio(
+  estimate: MinimumVarianceEstimate,
+  annualHedgeCost: number,
+  riskAversion: number
+): number {
+  const forwardVariance = estimate.forwardVolatility * estimate.forwardVolatility;
+  return estimate.hedgeRatio - annualHedgeCost / (riskAversion * forwardVariance);
+}
+
+// Resolve the hedge ratio for the chosen method, falling back to the heuristic without history
+export function estimateHedgeRatio(
+  method: HedgeRatioMethod,
+  inputs: HedgeRatioInputs
+): HedgeRatioEstimate {
+  const heuristic: HedgeRatioEstimate = { method: 'heuristic', hedgeRatio: inputs.heuristicRatio };
+  if (method === 'heuristic') return heuristic;
+
+  const minimumVariance = estimateMinimumVarianceHedgeRatio(
+    inputs.history,
+    inputs.confidenceLevel,
+    inputs.horizonDays
+  );
+  if (!minimumVariance) return heuristic;
+
+  if (method === 'minimum-variance') {
+    return {
+      method,
+      hedgeRatio: clamp(minimumVariance.hedgeRatio),
+      lower: clamp(minimumVariance.lower),
+      upper: clamp(minimumVariance.upper),
+      minimumVariance,
+    };
+  }
+
+  const shift = minimumVariance.hedgeRatio
+    - calculateMeanVarianceHedgeRatio(minimumVariance, inputs.annualHedgeCost, inputs.riskAversion);
+  return {
+    method,
+    hedgeRatio: clamp(minimumVariance.hedgeRatio - shift),
+    lower: clamp(minimumVariance.lower - shift),
+    upper: clamp(minimumVariance.upper - shift),
+    minimumVariance,
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildZeroCostStrategy,
+  calculateStrategyPayoff,
+  HEDGE_STRATEGIES,
+  solveZeroPremiumStrike,
+  type OptionMarket
+} from "./hedge-strategies";
+
+const tenorYears = 0.5;
+const domesticRate = 0.036;
+const foreignRate = 0.042;
+const spotRate = 4.45;
+const market: OptionMarket = {
+  spotRate,
+  forwardRate: spotRate * Math.exp((domesticRate - foreignRate) * tenorYears),
+  tenorYears,
+  domesticRate,
+  foreignRate,
+  volatility: 0.08,
+};
+
+describe('buildZeroCostStrategy', () => {
+  HEDGE_STRATEGIES.forEach(({ type }) => {
+    (['long', 'short'] as const).forEach(exposure => {
+      it(`solves a ${exposure} ${type} to zero premium`, () => {
+        const strategy = buildZeroCostStrategy(type, exposure, market, { protection: 0.02, wing: 0.03, participation: 0.5 });
+        expect(Math.abs(strategy.netPremium)).toBeLessThan(1e-7);
+      });
+    });
+  });
+
+  it('brackets the forward with the collar strikes', () => {
+    const [put, call] = buildZeroCostStrategy('collar', 'long', market, { protection: 0.02 }).legs;
+    expect(put).toMatchObject({ optionType: 'put', side: 'buy' });
+    expect(call).toMatchObject({ optionType: 'call', side: 'sell' });
+    expect(put.strike).toBeCloseTo(market.forwardRate * 0.98, 12);
+    expect(call.strike).toBeGreaterThan(market.forwardRate);
+  });
+
+  it('caps a receivable collar payoff between its strikes', () => {
+    const strategy = buildZeroCostStrategy('collar', 'long', market, { protection: 0.02 });
+    const [put, call] = strategy.legs;
+    expect(calculateStrategyPayoff(strategy.legs, put.strike - 0.5)).toBeCloseTo(0.5, 6);
+    expect(calculateStrategyPayoff(strategy.legs, call.strike + 0.5)).toBeCloseTo(-0.5, 6);
+    expect(calculateStrategyPayoff(strategy.legs, market.forwardRate)).toBeCloseTo(0, 6);
+  });
+
+  it('collapses a participating forward with no participation into an outright forward', () => {
+    const strategy = buildZeroCostStrategy('participating-forward', 'long', market, { protection: 0, participation: 0 });
+    strategy.legs.forEach(leg => expect(leg.strike).toBeCloseTo(market.forwardRate, 6));
+  });
+});
+
+describe('solveZeroPremiumStrike', () => {
+  it('finds the root of a monotone function', () => {
+    expect(solveZeroPremiumStrike(strike => strike * strike - 2, 0, 2)).toBeCloseTo(Math.SQRT2, 7);
+  });
+});
@@ -0,0 +1,179 @@
+// Structured Hedges: zero-cost collars, seagulls and participating forwards built from vanilla options
+
+import { garmanKohlhagen, optionPayoff, type OptionType } from "./fx-options";
+import {
+  calculateUnhedgedPnL,
+  calculateHedgePnL,
+  type FXTrade,
+  type ForwardHedge,
+  type SensitivityPoint
+} from "./fx-calculations";
+
+export type HedgeStrategyType = 'collar' | 'seagull' | 'participating-forward';
+export type ExposureDirection = 'long' | 'short'; // net USD receivable / payable
+
+export const HEDGE_STRATEGIES: Array<{ type: HedgeStrategyType; label: string }> = [
+  { type: 'collar', label: 'Zero-Cost Collar' },
+  { type: 'seagull', label: 'Seagull' },
+  { type: 'participating-forward', label: 'Participating Forward' },
+];
+
+// Everything needed to price a vanilla at a single tenor
+export interface OptionMarket {
+  spotRate: number;
+  forwardRate: number;
+  tenorYears: number;
+  domesticRate: number; // MYR
+  foreignRate: number; // USD
+  volatility: number;
+}
+
+export interface StrategyLeg {
+  optionType: OptionType;
+  side: 'buy' | 'sell';
+  strike: number;
+  notionalFraction: number; // share of the hedged notional
+  premium: number; // MYR per USD of leg notional
+}
+
+export interface StrategyParameters {
+  protection: number; // bought strike, fraction out of the money from the forward
+  wing?: number; // seagull: distance of the sold wing beyond the bought strike, as a fraction
+  participation?: number; // participating forward: share of favourable moves kept, 0..0.95
+}
+
+export interface HedgeStrategy {
+  type: HedgeStrategyType;
+  exposure: ExposureDirection;
+  legs: StrategyLeg[];
+  netPremium: number; // MYR per USD hedged; zero when the solver converges
+}
+
+const MAX_PARTICIPATION = 0.95;
+
+function priceLeg(
+  market: OptionMarket,
+  optionType: OptionType,
+  side: 'buy' | 'sell',
+  strike: number,
+  notionalFraction: number = 1
+): StrategyLeg {
+  const { premium } = garmanKohlhagen({
+    optionType,
+    spotRate: market.spotRate,
+    strike,
+    tenorYears: market.tenorYears,
+    domesticRate: market.domesticRate,
+    foreignRate: market.foreignRate,
+    volatility: market.volatility,
+  });
+  return { optionType, side, strike, notionalFraction, premium };
+}
+
+// Premium paid (positive) or received (negative) per USD hedged
+export function calculateStrategyPremium(legs: StrategyLeg[]): number {
+  return legs.reduce((sum, leg) => {
+    const premium = leg.premium * leg.notionalFraction;
+    return sum + (leg.side === 'buy' ? premium : -premium);
+  }, 0);
+}
+
+// Settlement payoff per USD hedged, net of premium
+export function calculateStrategyPayoff(legs: StrategyLeg[], settlementRate: number): number {
+  return legs.reduce((sum, leg) => {
+    const payoff = (optionPayoff(leg.optionType, leg.strike, settlementRate) - leg.premium) * leg.notionalFraction;
+    return sum + (leg.side === 'buy' ? payoff : -payoff);
+  }, 0);
+}
+
+// Bisection for the strike where a monotone premium function crosses zero
+export function solveZeroPremiumStrike(
+  premiumAt: (strike: number) => number,
+  low: number,
+  high: number,
+  tolerance: number = 1e-8
+): number {
+  let fLow = premiumAt(low);
+  for (let i = 0; i < 200 && high - low > tolerance; i++) {
+    const mid = (low + high) / 2;
+    const fMid = premiumAt(mid);
+    if (Math.sign(fMid) === Math.sign(fLow)) {
+      low = mid;
+      fLow = fMid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+// Compose and solve a zero-premium structure protecting a net long or short USD exposure
+export function buildZeroCostStrategy(
+  type: HedgeStrategyType,
+  exposure: ExposureDirection,
+  market: OptionMarket,
+  parameters: StrategyParameters
+): HedgeStrategy {
+  const { protection, wing = 0.03 } = parameters;
+  const participation = Math.min(MAX_PARTICIPATION, Math.max(0, parameters.participation ?? 0.5));
+  const forward = market.forwardRate;
+
+  // A USD receivable buys USD puts and sells USD calls; a payable does the reverse
+  const protect: OptionType = exposure === 'long' ? 'put' : 'call';
+  const finance: OptionType = exposure === 'long' ? 'call' : 'put';
+  const away = exposure === 'long' ? -1 : 1; // direction of out-of-the-money for the bought leg
+
+  let legs: StrategyLeg[];
+
+  if (type === 'participating-forward') {
+    const [low, high] = exposure === 'long' ? [forward / 3, forward] : [forward, forward * 3];
+    // Full protection at one strike, financed by selling the opposite option on the non-participating share
+    const legsAt = (strike: number) => [
+      priceLeg(market, protect, 'buy', strike),
+      priceLeg(market, finance, 'sell', strike, 1 - participation),
+    ];
+    legs = legsAt(solveZeroPremiumStrike(strike => calculateStrategyPremium(legsAt(strike)), low, high));
+  } else {
+    const boughtStrike = forward * (1 + away * protection);
+    const fixedLegs = [priceLeg(market, protect, 'buy', boughtStrike)];
+    if (type === 'seagull') {
+      fixedLegs.push(priceLeg(market, protect, 'sell', boughtStrike * (1 + away * wing)));
+    }
+
+    // The sold leg sits on the far side of the bought strike
+    const [low, high] = exposure === 'long' ? [boughtStrike, forward * 3] : [forward / 3, boughtStrike];
+    const premiumAt = (strike: number) =>
+      calculateStrategyPremium([...fixedLegs, priceLeg(market, finance, 'sell', strike)]);
+    legs = [...fixedLegs, priceLeg(market, finance, 'sell', solveZeroPremiumStrike(premiumAt, low, high))];
+  }
+
+  return { type, exposure, legs, netPremium: calculateStrategyPremium(legs) };
+}
+
+// Unhedged book P&L against the book hedged with the strategy on a net USD notional, plus a forward comparison
+export function generateStrategyProfile(
+  trades: FXTrade[],
+  baseRate: number,
+  strategy: HedgeStrategy,
+  hedgedNotionalUSD: number,
+  forwardHedges: ForwardHedge[] = [],
+  shockRange: number = 0.5
+): SensitivityPoint[] {
+  const steps = 50;
+  const profile: SensitivityPoint[] = [];
+
+  for (let i = 0; i <= steps; i++) {
+    const rate = baseRate - shockRange + (2 * shockRange * i) / steps;
+    const pnl = calculateUnhedgedPnL(trades, baseRate, rate);
+    const strategyPnl = hedgedNotionalUSD * calculateStrategyPayoff(strategy.legs, rate);
+
+    profile.push({
+      fxRate: rate,
+      pnl: pnl / 1000000,
+      hedgedPnl: (pnl + strategyPnl) / 1000000,
+      forwardHedgedPnl: (pnl + calculateHedgePnL(forwardHedges, rate)) / 1000000,
+    });
+  }
+
+  return profile;
+}
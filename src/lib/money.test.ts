@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PAIR_MARKETS, pairConversionRates } from "./currency-pairs";
+import { buildConversionRates, convertMoney, formatMillions, formatMoney, money } from "./money";
+
+const rates = buildConversionRates({ USD: 4.5, SGD: 3.3, EUR: 4.9, CNY: 0.62, JPY: 0.03 });
+
+describe('convertMoney', () => {
+  it('converts out of and into the functional currency at MYR spot', () => {
+    expect(convertMoney(money(4500000), 'USD', rates)).toEqual({ amount: 1000000, currency: 'USD' });
+    expect(convertMoney(money(1000000, 'USD'), 'MYR', rates)).toEqual({ amount: 4500000, currency: 'MYR' });
+  });
+
+  it('crosses two foreign currencies through MYR', () => {
+    expect(convertMoney(money(330, 'SGD'), 'USD', rates).amount).toBeCloseTo(330 * 3.3 / 4.5, 12);
+  });
+
+  it('leaves an amount already in the target currency untouched', () => {
+    const amount = money(100, 'EUR');
+    expect(convertMoney(amount, 'EUR', rates)).toBe(amount);
+  });
+
+  it('takes each currency\'s rate from its pair\'s market', () => {
+    const fromMarkets = pairConversionRates(DEFAULT_PAIR_MARKETS);
+    expect(fromMarkets.MYR).toBe(1);
+    expect(fromMarkets.USD).toBe(DEFAULT_PAIR_MARKETS['USD/MYR'].spotRate);
+    expect(fromMarkets.JPY).toBe(DEFAULT_PAIR_MARKETS['JPY/MYR'].spotRate);
+  });
+});
+
+describe('formatMoney', () => {
+  it('abbreviates with the currency symbol and a leading sign', () => {
+    expect(formatMoney(money(-1250000))).toBe('-RM1.25M');
+    expect(formatMoney(money(430000, 'USD'))).toBe('$430K');
+    expect(formatMoney(money(999, 'SGD'))).toBe('S$999');
+    expect(formatMoney(money(2500000, 'EUR'), 1)).toBe('€2.5M');
+  });
+
+  it('formats chart values already in millions', () => {
+    expect(formatMillions(-3.456, 'USD')).toBe('-$3.46M');
+  });
+});
@@ -0,0 +1,59 @@
+// Money: amounts tagged with their currency, converted to a reporting currency and formatted with its symbol
+
+export type CurrencyCode = 'MYR' | 'USD' | 'SGD' | 'EUR' | 'CNY' | 'JPY';
+
+// Currencies held against the functional currency
+export type ForeignCurrency = Exclude<CurrencyCode, 'MYR'>;
+
+export interface Money {
+  amount: number;
+  currency: CurrencyCode;
+}
+
+export const FUNCTIONAL_CURRENCY: CurrencyCode = 'MYR';
+
+export const CURRENCIES: Record<CurrencyCode, { symbol: string; label: string }> = {
+  MYR: { symbol: 'RM', label: 'Malaysian Ringgit' },
+  USD: { symbol: '$', label: 'US Dollar' },
+  SGD: { symbol: 'S$', label: 'Singapore Dollar' },
+  EUR: { symbol: '€', label: 'Euro' },
+  CNY: { symbol: 'CN¥', label: 'Chinese Yuan' },
+  JPY: { symbol: '¥', label: 'Japanese Yen' },
+};
+
+// MYR per one unit of each currency
+export type ConversionRates = Record<CurrencyCode, number>;
+
+export function money(amount: number, currency: CurrencyCode = FUNCTIONAL_CURRENCY): Money {
+  return { amount, currency };
+}
+
+// Conversion rates from the MYR spot quote of every foreign currency
+export function buildConversionRates(spots: Record<ForeignCurrency, number>): ConversionRates {
+  return { MYR: 1, ...spots };
+}
+
+export function convertMoney(value: Money, to: CurrencyCode, rates: ConversionRates): Money {
+  if (value.currency === to) return value;
+  return { amount: value.amount * rates[value.currency] / rates[to], currency: to };
+}
+
+export function currencySymbol(currency: CurrencyCode): string {
+  return CURRENCIES[currency].symbol;
+}
+
+// Compact amount with the currency symbol, e.g. -RM1.25M, $430K
+export function formatMoney(value: Money, digits: number = 2): string {
+  const symbol = currencySymbol(value.currency);
+  const sign = value.amount < 0 ? '-' : '';
+  const abs = Math.abs(value.amount);
+  if (abs >= 1000000) return `${sign}${symbol}${(abs / 1000000).toFixed(digits)}M`;
+  if (abs >= 1000) return `${sign}${symbol}${(abs / 1000).toFixed(0)}K`;
+  return `${sign}${symbol}${abs.toFixed(0)}`;
+}
+
+// Amount already expressed in millions, as charts plot them
+export function formatMillions(amountInMillions: number, currency: CurrencyCode, digits: number = 2): string {
+  const sign = amountInMillions < 0 ? '-' : '';
+  return `${sign}${currencySymbol(currency)}${Math.abs(amountInMillions).toFixed(digits)}M`;
+}
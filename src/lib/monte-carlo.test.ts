@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { buildRiskScenario, calculateVaR, DEFAULT_PARAMETERS, revalueTrade, type FXTrade } from "./fx-calculations";
+import { percentileOf, runMonteCarloSimulation } from "./monte-carlo";
+
+const asOfDate = new Date(2026, 0, 1);
+const scenario = buildRiskScenario(DEFAULT_PARAMETERS);
+
+const longTrade: FXTrade = {
+  id: 'T1',
+  pair: 'USD/MYR',
+  notional: 1000000,
+  tradeDate: new Date(2025, 11, 1),
+  maturityDate: new Date(2026, 6, 1),
+  direction: 'long',
+};
+
+describe('runMonteCarloSimulation', () => {
+  it('replays the same distribution for the same seed', () => {
+    const options = { numberOfPaths: 500, timeHorizon: 10, seed: 42, asOfDate };
+    const first = runMonteCarloSimulation([longTrade], scenario, options);
+    const second = runMonteCarloSimulation([longTrade], scenario, options);
+    const reseeded = runMonteCarloSimulation([longTrade], scenario, { ...options, seed: 43 });
+
+    expect(second.pnls).toEqual(first.pnls);
+    expect(reseeded.pnls).not.toEqual(first.pnls);
+  });
+
+  it('sorts P&Ls and keeps each terminal rate beside the P&L of its path', () => {
+    const result = runMonteCarloSimulation([longTrade], scenario, { numberOfPaths: 200, timeHorizon: 10, asOfDate });
+
+    result.pnls.slice(1).forEach((pnl, i) => expect(pnl).toBeGreaterThanOrEqual(result.pnls[i]));
+    result.terminalRates.forEach((rate, i) => {
+      const pathScenario = { ...scenario, shockedFXRate: rate, shockedSpotRate: rate, interestRateShock: 0, shockedCurves: scenario.curves };
+      expect(revalueTrade(longTrade, pathScenario, asOfDate).pnl).toBeCloseTo(result.pnls[i], 6);
+    });
+  });
+
+  it('agrees with parametric VaR on a single forward', () => {
+    const result = runMonteCarloSimulation([longTrade], scenario, {
+      numberOfPaths: 20000,
+      timeHorizon: 10,
+      confidenceLevel: 0.99,
+      asOfDate,
+    });
+    const parametric = calculateVaR(longTrade.notional * scenario.currentFXRate, scenario.volatility, 0.99, 10);
+
+    expect(result.tailRisk.valueAtRisk / parametric).toBeGreaterThan(0.93);
+    expect(result.tailRisk.valueAtRisk / parametric).toBeLessThan(1.07);
+  });
+
+  it('reports progress from 0 to 1', () => {
+    const progress: number[] = [];
+    runMonteCarloSimulation([longTrade], scenario, { numberOfPaths: 100, asOfDate, onProgress: p => progress.push(p) });
+
+    expect(progress[progress.length - 1]).toBe(1);
+    progress.slice(1).forEach((p, i) => expect(p).toBeGreaterThanOrEqual(progress[i]));
+  });
+});
+
+describe('percentileOf', () => {
+  it('interpolates between neighbouring observations', () => {
+    expect(percentileOf([0, 10, 20, 30, 40], 50)).toBe(20);
+    expect(percentileOf([0, 10], 25)).toBe(2.5);
+    expect(percentileOf([], 5)).toBe(0);
+  });
+});
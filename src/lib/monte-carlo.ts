@@ -0,0 +1,184 @@
+// Monte Carlo Simulation Engine for FX Portfolio Loss Distributions
+
+import {
+  revalueTrade,
+  calculateTailRisk,
+  type FXTrade,
+  type RiskScenario,
+  type TailRiskMeasures
+} from "./fx-calculations";
+import {
+  createSeededRandom,
+  sampleStandardNormal,
+  DEFAULT_SEED,
+  type RandomSource
+} from "./random";
+
+export interface MonteCarloOptions {
+  numberOfPaths?: number;
+  timeHorizon?: number; // days
+  stepsPerDay?: number;
+  confidenceLevel?: number;
+  seed?: number;
+  asOfDate?: Date;
+  onProgress?: (fraction: number) => void; // share of the run completed, 0–1
+}
+
+export interface PercentileMarker {
+  label: string;
+  percentile: number;
+  value: number;
+}
+
+export interface MonteCarloResult {
+  pnls: number[]; // sorted ascending
+  terminalRates: number[]; // terminalRates[i] is the path's rate behind pnls[i]
+  mean: number;
+  stdDev: number;
+  percentiles: PercentileMarker[];
+  tailRisk: TailRiskMeasures;
+  confidenceLevel: number;
+  numberOfPaths: number;
+  timeHorizon: number;
+  seed: number;
+}
+
+export interface HistogramBin {
+  pnl: number; // bin midpoint, millions
+  probability: number;
+}
+
+const TRADING_DAYS_PER_YEAR = 252;
+const DEFAULT_PERCENTILES = [1, 5, 50, 95, 99];
+const PROGRESS_UPDATES = 100;
+
+// Simulate USD/MYR rate paths with geometric Brownian motion, returning terminal rates
+export function simulateFXRatePaths(
+  scenario: RiskScenario,
+  numberOfPaths: number,
+  timeHorizon: number, // days
+  stepsPerDay: number = 1,
+  random: RandomSource = createSeededRandom(DEFAULT_SEED),
+  onProgress?: (completedPaths: number, totalPaths: number) => void
+): number[] {
+  const steps = Math.max(1, Math.round(timeHorizon * stepsPerDay));
+  const dt = timeHorizon / TRADING_DAYS_PER_YEAR / steps;
+  const drift = -0.5 * scenario.volatility * scenario.volatility * dt;
+  const diffusion = scenario.volatility * Math.sqrt(dt);
+  const terminalRates: number[] = [];
+  const progressInterval = Math.max(1, Math.ceil(numberOfPaths / PROGRESS_UPDATES));
+
+  for (let path = 0; path < numberOfPaths; path++) {
+    let logRate = Math.log(scenario.currentFXRate);
+    for (let step = 0; step < steps; step++) {
+      logRate += drift + diffusion * sampleStandardNormal(random);
+    }
+    terminalRates.push(Math.exp(logRate));
+    if (onProgress && (path + 1) % progressInterval === 0) onProgress(path + 1, numberOfPaths);
+  }
+
+  return terminalRates;
+}
+
+// Value at a given percentile (0-100) of an ascending-sorted sample, linearly interpolated
+export function percentileOf(sorted: number[], percentile: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const weight = position - lower;
+  return sorted[lower] * (1 - weight) + sorted[upper] * weight;
+}
+
+// Revalue the trade book on every simulated path and summarise the P&L distribution
+export function runMonteCarloSimulation(
+  trades: FXTrade[],
+  scenario: RiskScenario,
+  options: MonteCarloOptions = {}
+): MonteCarloResult {
+  const {
+    numberOfPaths = 5000,
+    timeHorizon = 1,
+    stepsPerDay = 1,
+    confidenceLevel = 0.95,
+    seed = DEFAULT_SEED,
+    asOfDate = new Date(),
+    onProgress,
+  } = options;
+
+  const random = createSeededRandom(seed);
+  // Path generation is the first half of the run and revaluing the book on each path the second
+  const simulatedRates = simulateFXRatePaths(
+    scenario,
+    numberOfPaths,
+    timeHorizon,
+    stepsPerDay,
+    random,
+    onProgress && ((completed, total) => onProgress(0.5 * completed / total))
+  );
+  const progressInterval = Math.max(1, Math.ceil(numberOfPaths / PROGRESS_UPDATES));
+  // Each path moves spot only; trades are revalued at their forwards, as in the parametric measures,
+  // with curves held at base so the distribution is of FX risk alone
+  const outcomes = simulatedRates
+    .map((rate, path) => {
+      if (onProgress && (path + 1) % progressInterval === 0) onProgress(0.5 + 0.5 * (path + 1) / numberOfPaths);
+      const pathScenario = {
+        ...scenario,
+        shockedFXRate: rate,
+        shockedSpotRate: rate,
+        interestRateShock: 0,
+        shockedCurves: scenario.curves,
+      };
+      const pnl = trades.reduce((sum, trade) => sum + revalueTrade(trade, pathScenario, asOfDate).pnl, 0);
+      return { rate, pnl };
+    })
+    .sort((a, b) => a.pnl - b.pnl);
+  const pnls = outcomes.map(outcome => outcome.pnl);
+  const terminalRates = outcomes.map(outcome => outcome.rate);
+
+  const mean = pnls.reduce((sum, pnl) => sum + pnl, 0) / pnls.length;
+  const variance = pnls.reduce((sum, pnl) => sum + (pnl - mean) ** 2, 0) / pnls.length;
+
+  const percentiles = DEFAULT_PERCENTILES.map(percentile => ({
+    label: `P${percentile}`,
+    percentile,
+    value: percentileOf(pnls, percentile),
+  }));
+
+  return {
+    pnls,
+    terminalRates,
+    mean,
+    stdDev: Math.sqrt(variance),
+    percentiles,
+    tailRisk: calculateTailRisk(pnls, confidenceLevel),
+    confidenceLevel,
+    numberOfPaths,
+    timeHorizon,
+    seed,
+  };
+}
+
+// Bucket simulated P&L outcomes into a probability histogram for charting
+export function buildPnLHistogram(
+  result: MonteCarloResult,
+  binCount: number = 40
+): HistogramBin[] {
+  const { pnls } = result;
+  if (pnls.length === 0) return [];
+
+  const min = pnls[0];
+  const max = pnls[pnls.length - 1];
+  const width = (max - min) / binCount || 1;
+  const counts = new Array(binCount).fill(0);
+
+  for (const pnl of pnls) {
+    const index = Math.min(binCount - 1, Math.floor((pnl - min) / width));
+    counts[index]++;
+  }
+
+  return counts.map((count, i) => ({
+    pnl: (min + (i + 0.5) * width) / 1000000, // Convert to millions
+    probability: count / pnls.length,
+  }));
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { CURRENCY_PAIRS, DEFAULT_PAIR_MARKETS, type CurrencyPair } from "./currency-pairs";
+import {
+  buildPairScenario,
+  calculateRiskByPair,
+  DEFAULT_PARAMETERS,
+  type FXTrade,
+  type PairRisk,
+  type RateObservation,
+  type RiskScenario
+} from "./fx-calculations";
+import {
+  buildCorrelationMatrix,
+  calculatePortfolioVaR,
+  DEFAULT_CORRELATIONS,
+  estimateCorrelations,
+  isPositiveSemiDefinite,
+  setCorrelation
+} from "./portfolio-var";
+import { createSeededRandom, sampleStandardNormal } from "./random";
+
+const asOfDate = new Date(2026, 0, 1);
+const scenarios = Object.fromEntries(CURRENCY_PAIRS.map(({ pair }) => [
+  pair,
+  buildPairScenario(DEFAULT_PARAMETERS, DEFAULT_PAIR_MARKETS[pair]),
+])) as Record<CurrencyPair, RiskScenario>;
+
+const trade = (id: string, pair: CurrencyPair, notional: number, direction: FXTrade['direction']): FXTrade => ({
+  id,
+  pair,
+  notional,
+  direction,
+  tradeDate: asOfDate,
+  maturityDate: new Date(2026, 5, 30),
+});
+
+const rows = (trades: FXTrade[]) => calculateRiskByPair(trades, scenarios, { asOfDate, timeHorizon: 10, confidenceLevel: 0.99 });
+
+const book = rows([
+  trade('U1', 'USD/MYR', 5000000, 'long'),
+  trade('S1', 'SGD/MYR', 3000000, 'long'),
+  trade('E1', 'EUR/MYR', 2000000, 'short'),
+  trade('J1', 'JPY/MYR', 400000000, 'long'),
+]);
+
+describe('calculatePortfolioVaR', () => {
+  it('decomposes into Euler components that sum to the total', () => {
+    const portfolio = calculatePortfolioVaR(book, DEFAULT_CORRELATIONS);
+    const components = portfolio.contributions.reduce((sum, item) => sum + item.componentVaR, 0);
+    const shares = portfolio.contributions.reduce((sum, item) => sum + item.share, 0);
+
+    expect(components).toBeCloseTo(portfolio.valueAtRisk, 6);
+    expect(shares).toBeCloseTo(1, 12);
+    expect(portfolio.valueAtRisk).toBeLessThan(portfolio.undiversifiedVaR);
+  });
+
+  it('equals standalone VaR for a single pair and the sum of them under perfect correlation', () => {
+    const single = calculatePortfolioVaR(book.slice(0, 1), DEFAULT_CORRELATIONS);
+    expect(single.valueAtRisk).toBeCloseTo(book[0].metrics.valueAtRisk, 6);
+
+    const longs = book.filter(row => row.pair !== 'EUR/MYR');
+    const perfect = buildCorrelationMatrix(longs.flatMap((a, i) => longs.slice(i + 1).map(b => [a.pair, b.pair, 1] as [CurrencyPair, CurrencyPair, number])));
+    const together = calculatePortfolioVaR(longs, perfect);
+    expect(together.valueAtRisk).toBeCloseTo(together.undiversifiedVaR, 6);
+    expect(together.diversificationBenefit).toBeCloseTo(0, 6);
+  });
+
+  it('gives marginal VaR as the change in portfolio VaR per MYR of extra exposure', () => {
+    const portfolio = calculatePortfolioVaR(book, DEFAULT_CORRELATIONS);
+    const bump = 1000;
+    [0, 2].forEach(index => {
+      const row = book[index];
+      // Pair rows hold unsigned MYR exposure, so the bump adds to the position in its own direction
+      const bumped: PairRisk[] = book.map((other, i) => i === index ? { ...other, exposureMYR: other.exposureMYR + bump } : other);
+      const change = calculatePortfolioVaR(bumped, DEFAULT_CORRELATIONS).valueAtRisk - portfolio.valueAtRisk;
+      const contribution = portfolio.contributions.find(item => item.pair === row.pair)!;
+      expect(contribution.marginalVaR * bump).toBeCloseTo(change, 2);
+    });
+  });
+
+  it('reports nothing for an empty book', () => {
+    expect(calculatePortfolioVaR([], DEFAULT_CORRELATIONS)).toEqual({
+      valueAtRisk: 0,
+      undiversifiedVaR: 0,
+      diversificationBenefit: 0,
+      contributions: [],
+    });
+  });
+});
+
+describe('correlation matrices', () => {
+  it('accepts the defaults and rejects an impossible triangle', () => {
+    expect(isPositiveSemiDefinite(DEFAULT_CORRELATIONS)).toBe(true);
+
+    let matrix = setCorrelation(DEFAULT_CORRELATIONS, 'USD/MYR', 'SGD/MYR', 0.9);
+    matrix = setCorrelation(matrix, 'USD/MYR', 'CNY/MYR', 0.9);
+    matrix = setCorrelation(matrix, 'SGD/MYR', 'CNY/MYR', -0.9);
+    expect(isPositiveSemiDefinite(matrix)).toBe(false);
+  });
+
+  it('edits both sides of the diagonal and clamps to [-1, 1]', () => {
+    const matrix = setCorrelation(DEFAULT_CORRELATIONS, 'EUR/MYR', 'JPY/MYR', 1.4);
+    expect(matrix['EUR/MYR']['JPY/MYR']).toBe(1);
+    expect(matrix['JPY/MYR']['EUR/MYR']).toBe(1);
+    expect(setCorrelation(DEFAULT_CORRELATIONS, 'EUR/MYR', 'EUR/MYR', 0.5)).toBe(DEFAULT_CORRELATIONS);
+  });
+
+  it('estimates correlations from returns on the dates both pairs were observed', () => {
+    const random = createSeededRandom(11);
+    const usd: RateObservation[] = [];
+    const sgd: RateObservation[] = [];
+    let logUsd = Math.log(4.5);
+    let logSgd = Math.log(3.4);
+    for (let day = 0; day < 600; day++) {
+      const date = new Date(Date.UTC(2023, 0, 1 + day));
+      const common = sampleStandardNormal(random);
+      logUsd += 0.005 * common;
+      logSgd += 0.005 * (0.6 * common + 0.8 * sampleStandardNormal(random));
+      usd.push({ date, rate: Math.exp(logUsd) });
+      if (day % 7 !== 3) sgd.push({ date, rate: Math.exp(logSgd) }); // SGD misses a day a week
+    }
+
+    const estimate = estimateCorrelations({ 'USD/MYR': usd, 'SGD/MYR': sgd });
+    expect(estimate.estimatedPairs).toEqual(['USD/MYR', 'SGD/MYR']);
+    expect(estimate.observations).toBe(sgd.length - 1);
+    expect(estimate.matrix['USD/MYR']['SGD/MYR']).toBeGreaterThan(0.5);
+    expect(estimate.matrix['USD/MYR']['SGD/MYR']).toBeLessThan(0.7);
+    expect(estimate.matrix['USD/MYR']['EUR/MYR']).toBe(DEFAULT_CORRELATIONS['USD/MYR']['EUR/MYR']);
+  });
+});
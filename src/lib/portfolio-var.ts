@@ -0,0 +1,195 @@
+// Portfolio VaR: diversified parametric VaR across currency pairs, with component and marginal contributions
+
+import { CURRENCY_PAIRS, type CurrencyPair } from "./currency-pairs";
+import { inverseNormalCDF, type PairRisk, type RateObservation } from "./fx-calculations";
+
+// Correlation of daily log returns between every two pairs; symmetric with a unit diagonal
+export type CorrelationMatrix = Record<CurrencyPair, Record<CurrencyPair, number>>;
+
+export interface CorrelationEstimate {
+  matrix: CorrelationMatrix;
+  estimatedPairs: CurrencyPair[]; // pairs with enough history; the rest keep their fallback correlations
+  observations: number; // fewest overlapping returns behind any estimated correlation
+}
+
+export interface VaRContribution {
+  pair: CurrencyPair;
+  exposureMYR: number; // signed: short net positions are negative
+  standaloneVaR: number;
+  marginalVaR: number; // change in portfolio VaR per MYR of extra exposure in the position's direction
+  componentVaR: number; // contribution to portfolio VaR; components sum to the total
+  share: number; // component as a share of portfolio VaR
+}
+
+export interface PortfolioVaR {
+  valueAtRisk: number;
+  undiversifiedVaR: number; // sum of standalone VaRs, as if every pair moved together
+  diversificationBenefit: number;
+  contributions: VaRContribution[];
+}
+
+export const MIN_CORRELATION_OBSERVATIONS = 30;
+
+// Square matrix with ones on the diagonal and the given correlations mirrored off it
+export function buildCorrelationMatrix(entries: Array<[CurrencyPair, CurrencyPair, number]>): CorrelationMatrix {
+  const matrix = Object.fromEntries(CURRENCY_PAIRS.map(({ pair: row }) => [
+    row,
+    Object.fromEntries(CURRENCY_PAIRS.map(({ pair: column }) => [column, row === column ? 1 : 0])),
+  ])) as CorrelationMatrix;
+  entries.forEach(([a, b, value]) => {
+    if (a === b) return;
+    matrix[a][b] = value;
+    matrix[b][a] = value;
+  });
+  return matrix;
+}
+
+// Illustrative long-run correlations; MYR is the common leg, so every MYR-quoted pair co-moves
+export const DEFAULT_CORRELATIONS = buildCorrelationMatrix([
+  ['USD/MYR', 'SGD/MYR', 0.75],
+  ['USD/MYR', 'EUR/MYR', 0.5],
+  ['USD/MYR', 'CNY/MYR', 0.85],
+  ['USD/MYR', 'JPY/MYR', 0.55],
+  ['SGD/MYR', 'EUR/MYR', 0.65],
+  ['SGD/MYR', 'CNY/MYR', 0.75],
+  ['SGD/MYR', 'JPY/MYR', 0.55],
+  ['EUR/MYR', 'CNY/MYR', 0.5],
+  ['EUR/MYR', 'JPY/MYR', 0.5],
+  ['CNY/MYR', 'JPY/MYR', 0.5],
+]);
+
+// Copy of the matrix with one correlation changed on both sides of the diagonal, clamped to [-1, 1]
+export function setCorrelation(
+  matrix: CorrelationMatrix,
+  a: CurrencyPair,
+  b: CurrencyPair,
+  value: number
+): CorrelationMatrix {
+  if (a === b || !Number.isFinite(value)) return matrix;
+  const clamped = Math.max(-1, Math.min(1, value));
+  return {
+    ...matrix,
+    [a]: { ...matrix[a], [b]: clamped },
+    [b]: { ...matrix[b], [a]: clamped },
+  };
+}
+
+// Cholesky test: edited or pairwise-estimated matrices can imply a negative portfolio variance
+export function isPositiveSemiDefinite(matrix: CorrelationMatrix, tolerance: number = 1e-10): boolean {
+  const pairs = CURRENCY_PAIRS.map(config => config.pair);
+  const lower: number[][] = pairs.map(() => pairs.map(() => 0));
+
+  for (let i = 0; i < pairs.length; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[pairs[i]][pairs[j]];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+
+      if (i === j) {
+        if (sum < -tolerance) return false;
+        lower[i][i] = Math.sqrt(Math.max(0, sum));
+      } else {
+        lower[i][j] = lower[j][j] > tolerance ? sum / lower[j][j] : 0;
+      }
+    }
+  }
+  return true;
+}
+
+// Rates keyed by ISO date
+function ratesByDate(history: RateObservation[]): Map<string, number> {
+  return new Map(history.map(observation => [observation.date.toISOString().slice(0, 10), observation.rate]));
+}
+
+// Pearson correlation of two equally long samples
+function correlation(xs: number[], ys: number[]): number {
+  const n = xs.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : 0;
+}
+
+// Correlations of daily log returns on the dates both pairs were observed; pairs without enough overlap keep the fallback
+export function estimateCorrelations(
+  histories: Partial<Record<CurrencyPair, RateObservation[]>>,
+  fallback: CorrelationMatrix = DEFAULT_CORRELATIONS,
+  minObservations: number = MIN_CORRELATION_OBSERVATIONS
+): CorrelationEstimate {
+  const series = CURRENCY_PAIRS
+    .filter(({ pair }) => (histories[pair]?.length ?? 0) > minObservations)
+    .map(({ pair }) => ({ pair, byDate: ratesByDate(histories[pair]) }));
+
+  let matrix = fallback;
+  const estimated = new Set<CurrencyPair>();
+  let observations = Infinity;
+
+  series.forEach((a, i) => series.slice(i + 1).forEach(b => {
+    // Log returns between consecutive dates on which both pairs were observed
+    const dates = [...a.byDate.keys()].filter(date => b.byDate.has(date)).sort();
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (let k = 1; k < dates.length; k++) {
+      xs.push(Math.log(a.byDate.get(dates[k]) / a.byDate.get(dates[k - 1])));
+      ys.push(Math.log(b.byDate.get(dates[k]) / b.byDate.get(dates[k - 1])));
+    }
+    if (xs.length < minObservations) return;
+
+    matrix = setCorrelation(matrix, a.pair, b.pair, correlation(xs, ys));
+    estimated.add(a.pair);
+    estimated.add(b.pair);
+    observations = Math.min(observations, xs.length);
+  }));
+
+  return {
+    matrix,
+    estimatedPairs: CURRENCY_PAIRS.map(({ pair }) => pair).filter(pair => estimated.has(pair)),
+    observations: Number.isFinite(observations) ? observations : 0,
+  };
+}
+
+// Variance-covariance VaR of the pairs held together, decomposed into Euler (component) contributions
+export function calculatePortfolioVaR(rows: PairRisk[], correlations: CorrelationMatrix): PortfolioVaR {
+  // Each pair's VaR per MYR of exposure, on its own volatility and the run's confidence and horizon
+  const positions = rows.map(row => {
+    const { exposure, exposureBasis, varConfidenceLevel, varTimeHorizon } = row.metrics;
+    const sign = exposureBasis === 'net' && exposure.netNotional < 0 ? -1 : 1;
+    const scale = inverseNormalCDF(varConfidenceLevel) * row.scenario.volatility * Math.sqrt(varTimeHorizon / 252);
+    const exposureMYR = sign * row.exposureMYR;
+    return { pair: row.pair, exposureMYR, scale, weighted: exposureMYR * scale };
+  });
+
+  // Correlated VaR each position sees: (ρ·w)_i
+  const correlated = positions.map(({ pair }) =>
+    positions.reduce((sum, other) => sum + correlations[pair][other.pair] * other.weighted, 0)
+  );
+  const variance = positions.reduce((sum, position, i) => sum + position.weighted * correlated[i], 0);
+  const valueAtRisk = Math.sqrt(Math.max(0, variance));
+  const undiversifiedVaR = positions.reduce((sum, position) => sum + Math.abs(position.weighted), 0);
+
+  const contributions = positions.map((position, i) => {
+    const componentVaR = valueAtRisk > 0 ? position.weighted * correlated[i] / valueAtRisk : 0;
+    const marginal = valueAtRisk > 0 ? position.scale * correlated[i] / valueAtRisk : 0;
+    return {
+      pair: position.pair,
+      exposureMYR: position.exposureMYR,
+      standaloneVaR: Math.abs(position.weighted),
+      marginalVaR: position.exposureMYR < 0 ? -marginal : marginal,
+      componentVaR,
+      share: valueAtRisk > 0 ? componentVaR / valueAtRisk : 0,
+    };
+  });
+
+  return {
+    valueAtRisk,
+    undiversifiedVaR,
+    diversificationBenefit: undiversifiedVaR - valueAtRisk,
+    contributions,
+  };
+}
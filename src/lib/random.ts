@@ -0,0 +1,35 @@
+// Seeded Pseudo-Random Number Generation for Reproducible Simulations
+
+export type RandomSource = () => number;
+
+export const DEFAULT_SEED = 20240901;
+
+// Normalise any numeric seed into an unsigned 32-bit integer
+export function normalizeSeed(seed: number): number {
+  return (Math.floor(Math.abs(seed)) >>> 0) || 1;
+}
+
+// Mulberry32 generator: fast, 32-bit state, uniform output in [0, 1)
+export function createSeededRandom(seed: number = DEFAULT_SEED): RandomSource {
+  let state = normalizeSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Pick a fresh seed for users who want a new random book
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 1000000000) + 1;
+}
+
+// Standard normal draw using the Box-Muller transform
+export function sampleStandardNormal(random: RandomSource): number {
+  let u = 0;
+  while (u === 0) u = random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
@@ -0,0 +1,60 @@
+// FX Rate History Parsing for Historical Simulation
+
+import type { CurrencyPair } from "./currency-pairs";
+import type { RateObservation } from "./fx-calculations";
+import type { SpotForwardObservation } from "./hedge-ratio";
+import { parseCSV, normalizeDate, normalizePair } from "./trade-import";
+
+// Parse a date,rate CSV into chronologically sorted observations, skipping unusable rows
+export function parseRateHistory(text: string): RateObservation[] {
+  const { rows } = parseCSV(text);
+
+  return rows
+    .map(([date, rate]) => ({
+      date: normalizeDate(date ?? ''),
+      rate: parseFloat(rate ?? ''),
+    }))
+    .filter((row): row is RateObservation =>
+      row.date !== null && Number.isFinite(row.rate) && row.rate > 0
+    )
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+// Parse a date,spot,forward CSV into chronologically sorted observations
+export function parseSpotForwardHistory(text: string): SpotForwardObservation[] {
+  const { rows } = parseCSV(text);
+
+  return rows
+    .map(([date, spot, forward]) => ({
+      date: normalizeDate(date ?? ''),
+      spot: parseFloat(spot ?? ''),
+      forward: parseFloat(forward ?? ''),
+    }))
+    .filter((row): row is SpotForwardObservation =>
+      row.date !== null && row.spot > 0 && row.forward > 0
+    )
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+// Parse a date column followed by one rate column per pair (headed USDMYR, SGD/MYR, ...); unknown columns are ignored
+export function parsePairRateHistories(text: string): Partial<Record<CurrencyPair, RateObservation[]>> {
+  const { headers, rows } = parseCSV(text);
+  const histories: Partial<Record<CurrencyPair, RateObservation[]>> = {};
+
+  headers.forEach((header, column) => {
+    const pair = column > 0 && header.trim() ? normalizePair(header) : null;
+    if (!pair) return;
+
+    histories[pair] = rows
+      .map(row => ({
+        date: normalizeDate(row[0] ?? ''),
+        rate: parseFloat(row[column] ?? ''),
+      }))
+      .filter((row): row is RateObservation =>
+        row.date !== null && Number.isFinite(row.rate) && row.rate > 0
+      )
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  });
+
+  return histories;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { buildRiskScenario, DEFAULT_PARAMETERS, revaluePortfolio, type FXTrade } from "./fx-calculations";
+import { buildBreachFrontier, findSensitivityBreaches, solveBreachRate } from "./reverse-stress";
+
+const asOfDate = new Date(2026, 0, 1);
+const receivable: FXTrade = {
+  id: 'R1',
+  notional: 1000000,
+  tradeDate: asOfDate,
+  maturityDate: new Date(2026, 6, 1),
+  direction: 'long',
+};
+
+describe('solveBreachRate', () => {
+  const pnlAt = (rate: number) => 1000000 * (rate - 4.5); // long USD 1m at 4.50
+
+  it('finds where a linear P&L reaches the loss threshold', () => {
+    const down = solveBreachRate(pnlAt, 4.5, 100000, 'down')!;
+    expect(down.fxRate).toBeCloseTo(4.4, 9);
+    expect(down.move).toBeCloseTo(-0.1 / 4.5, 9);
+  });
+
+  it('returns null when the threshold is not reached within the search range', () => {
+    expect(solveBreachRate(pnlAt, 4.5, 100000, 'up')).toBeNull();
+    expect(solveBreachRate(pnlAt, 4.5, 10000000, 'down', 0.5)).toBeNull();
+  });
+
+  it('reports a breach at the base rate when the loss is already there', () => {
+    expect(solveBreachRate(() => -200000, 4.5, 100000, 'up')).toEqual({ direction: 'up', fxRate: 4.5, move: 0 });
+  });
+});
+
+describe('findSensitivityBreaches', () => {
+  it('returns only the directions that lose money', () => {
+    const breaches = findSensitivityBreaches([receivable], 4.5, 100000);
+    expect(breaches).toHaveLength(1);
+    expect(breaches[0].direction).toBe('down');
+    expect(breaches[0].fxRate).toBeCloseTo(4.4, 9);
+  });
+});
+
+describe('buildBreachFrontier', () => {
+  const scenario = buildRiskScenario(DEFAULT_PARAMETERS);
+
+  it('finds spot levels at which the revalued book loses exactly the threshold', () => {
+    const frontier = buildBreachFrontier([receivable], scenario, 100000, { asOfDate });
+    expect(frontier.map(row => row.rateShockBps)).toEqual([-200, -100, 0, 100, 200, 300]);
+
+    frontier.forEach(row => expect(row.up).toBeNull());
+
+    // Higher MYR rates lift the receivable's forward, so spot has to fall further before the loss is reached
+    frontier.slice(1).forEach((row, i) => expect(row.down!.fxRate).toBeLessThan(frontier[i].down!.fxRate));
+
+    // Unshocked: the forward moves with spot, so the breach is where the forward falls by the threshold
+    const atBase = frontier.find(row => row.rateShockBps === 0)!.down!;
+    const atBreach = { ...scenario, shockedCurves: scenario.curves, shockedFXRate: atBase.fxRate, shockedSpotRate: atBase.fxRate };
+    const pnl = revaluePortfolio([receivable], atBreach, asOfDate)[0].pnl;
+    expect(pnl).toBeCloseTo(-100000, 3);
+  });
+
+  it('moves the breach away as the hedge ratio rises', () => {
+    const unhedged = buildBreachFrontier([receivable], scenario, 100000, { asOfDate, rateShocks: [0] })[0].down!;
+    const hedged = buildBreachFrontier([receivable], scenario, 100000, { asOfDate, rateShocks: [0], hedgeRatio: 0.5 })[0].down!;
+    expect(hedged.move).toBeLessThan(unhedged.move);
+    expect(hedged.move / unhedged.move).toBeCloseTo(2, 6);
+  });
+});
@@ -0,0 +1,120 @@
+// Reverse Stress Testing: the spot levels and rate shocks at which losses breach a threshold
+
+import {
+  buildForwardHedges,
+  calculateHedgePnL,
+  calculateUnhedgedPnL,
+  revaluePortfolio,
+  type ForwardHedge,
+  type FXTrade,
+  type RiskScenario
+} from "./fx-calculations";
+import { applyCurveShock, DEFAULT_CURVES, type CurveShockTarget } from "./yield-curves";
+
+export type BreachDirection = 'up' | 'down'; // base currency strengthening / weakening against MYR
+
+export interface BreachPoint {
+  direction: BreachDirection;
+  fxRate: number;
+  move: number; // relative to the base rate
+}
+
+export interface BreachFrontierRow {
+  rateShockBps: number;
+  up: BreachPoint | null;
+  down: BreachPoint | null;
+}
+
+export interface ReverseStressOptions {
+  hedgeRatio?: number; // forward hedges at this ratio; 0 for the unhedged book
+  asOfDate?: Date;
+  rateShocks?: number[]; // bps
+  shockTarget?: CurveShockTarget;
+  maxMove?: number; // largest relative spot move searched
+}
+
+export const DEFAULT_REVERSE_STRESS_SHOCKS = [-200, -100, 0, 100, 200, 300];
+
+const SEARCH_STEPS = 200;
+
+// First rate away from base, in one direction, where P&L falls to -lossThreshold; null if none within maxMove
+export function solveBreachRate(
+  pnlAt: (rate: number) => number,
+  baseRate: number,
+  lossThreshold: number,
+  direction: BreachDirection,
+  maxMove: number = 0.5
+): BreachPoint | null {
+  const sign = direction === 'up' ? 1 : -1;
+  const excess = (rate: number) => pnlAt(rate) + lossThreshold; // negative once breached
+  if (excess(baseRate) <= 0) return { direction, fxRate: baseRate, move: 0 };
+
+  // Bracket the first crossing on a grid, then bisect
+  let previous = baseRate;
+  for (let i = 1; i <= SEARCH_STEPS; i++) {
+    const rate = baseRate * (1 + sign * maxMove * i / SEARCH_STEPS);
+    if (excess(rate) <= 0) {
+      let safe = previous;
+      let breached = rate;
+      for (let j = 0; j < 60; j++) {
+        const mid = (safe + breached) / 2;
+        if (excess(mid) <= 0) breached = mid;
+        else safe = mid;
+      }
+      return { direction, fxRate: breached, move: breached / baseRate - 1 };
+    }
+    previous = rate;
+  }
+  return null;
+}
+
+// Breach points on the sensitivity curve: spot-settled book plus forward hedges, as charted
+export function findSensitivityBreaches(
+  trades: FXTrade[],
+  baseRate: number,
+  lossThreshold: number,
+  hedges: ForwardHedge[] = [],
+  maxMove: number = 0.5
+): BreachPoint[] {
+  const pnlAt = (rate: number) => calculateUnhedgedPnL(trades, baseRate, rate) + calculateHedgePnL(hedges, rate);
+  return (['down', 'up'] as const)
+    .map(direction => solveBreachRate(pnlAt, baseRate, lossThreshold, direction, maxMove))
+    .filter((point): point is BreachPoint => point !== null);
+}
+
+// Spot levels that breach the threshold under each parallel rate shock, with full forward revaluation
+export function buildBreachFrontier(
+  trades: FXTrade[],
+  scenario: RiskScenario,
+  lossThreshold: number,
+  options: ReverseStressOptions = {}
+): BreachFrontierRow[] {
+  const {
+    hedgeRatio = 0,
+    asOfDate = new Date(),
+    rateShocks = DEFAULT_REVERSE_STRESS_SHOCKS,
+    shockTarget = 'MYR',
+    maxMove = 0.5,
+  } = options;
+
+  const curves = scenario.curves ?? DEFAULT_CURVES;
+  // Hedges are forwards themselves, so they revalue like trades struck at today's forward
+  const hedgePositions: FXTrade[] = buildForwardHedges(trades, hedgeRatio, scenario, asOfDate)
+    .map(hedge => ({ ...hedge, tradeDate: asOfDate }));
+  const book = [...trades, ...hedgePositions];
+
+  return rateShocks.map(bps => {
+    const shockedCurves = applyCurveShock(curves, { type: 'parallel', target: shockTarget, bps });
+    const pnlAt = (rate: number) => revaluePortfolio(
+      book,
+      { ...scenario, curves, shockedCurves, shockedFXRate: rate, shockedSpotRate: rate, interestRateShock: bps },
+      asOfDate
+    ).reduce((sum, valuation) => sum + valuation.pnl, 0);
+
+    return {
+      rateShockBps: bps,
+      up: solveBreachRate(pnlAt, scenario.currentFXRate, lossThreshold, 'up', maxMove),
+      down: solveBreachRate(pnlAt, scenario.currentFXRate, lossThreshold, 'down', maxMove),
+    };
+  });
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PAIR_MARKETS } from "./currency-pairs";
+import { DEFAULT_PARAMETERS } from "./fx-calculations";
+import { batchCSVFiles, importTradeFile, parseBatchScenario, runRiskBatch, summarizeBatch, toCSV } from "./risk-batch";
+
+describe('parseBatchScenario as-of date', () => {
+  it('reads every source of the date as the same local calendar day', () => {
+    const fromFlag = parseBatchScenario({}, DEFAULT_PARAMETERS, new Date(2026, 2, 31)).asOfDate;
+    const fromTop = parseBatchScenario({ asOfDate: '2026-03-31' }, DEFAULT_PARAMETERS).asOfDate;
+    const fromParameters = parseBatchScenario({ parameters: { asOfDate: '2026-03-31' } }, DEFAULT_PARAMETERS).asOfDate;
+
+    expect(fromTop).toEqual(fromFlag);
+    expect(fromParameters).toEqual(fromFlag);
+  });
+
+  it('prefers the top-level date and writes the resolved date back to the parameters', () => {
+    const scenario = parseBatchScenario({ asOfDate: '2026-03-31', parameters: { asOfDate: '2025-01-01' } }, DEFAULT_PARAMETERS);
+    expect(scenario.asOfDate).toEqual(new Date(2026, 2, 31));
+    expect(scenario.parameters.asOfDate).toBe('2026-03-31');
+  });
+
+  it('rejects timestamps and dates that do not exist', () => {
+    expect(() => parseBatchScenario({ asOfDate: '2026-03-31T00:00:00Z' }, DEFAULT_PARAMETERS)).toThrow(/asOfDate/);
+    expect(() => parseBatchScenario({ asOfDate: '2026-02-30' }, DEFAULT_PARAMETERS)).toThrow(/asOfDate/);
+    expect(() => parseBatchScenario({ parameters: { asOfDate: '2026-13-01' } }, DEFAULT_PARAMETERS)).toThrow(/parameters\.asOfDate/);
+  });
+});
+
+describe('parseBatchScenario', () => {
+  it("fills omitted values from the defaults and the selected pair's market", () => {
+    const scenario = parseBatchScenario({ parameters: { currencyPair: 'SGD/MYR', interestRateShock: 150 } }, DEFAULT_PARAMETERS);
+
+    expect(scenario.parameters).toMatchObject({
+      currencyPair: 'SGD/MYR',
+      interestRateShock: 150,
+      currentFXRate: DEFAULT_PAIR_MARKETS['SGD/MYR'].spotRate,
+      volatility: DEFAULT_PAIR_MARKETS['SGD/MYR'].volatility,
+      confidenceLevel: DEFAULT_PARAMETERS.confidenceLevel,
+    });
+    expect(scenario.markets['USD/MYR']).toEqual(DEFAULT_PAIR_MARKETS['USD/MYR']);
+  });
+
+  it("lets the parameters override the selected pair's market and sets correlations both ways", () => {
+    const scenario = parseBatchScenario({
+      parameters: { currentFXRate: 4.7 },
+      markets: { 'USD/MYR': { spotRate: 4.2 }, 'EUR/MYR': { volatility: 0.2 } },
+      correlations: { 'USD/MYR': { 'EUR/MYR': -0.3 } },
+    }, DEFAULT_PARAMETERS);
+
+    expect(scenario.markets['USD/MYR'].spotRate).toBe(4.7);
+    expect(scenario.markets['EUR/MYR'].volatility).toBe(0.2);
+    expect(scenario.correlations['EUR/MYR']['USD/MYR']).toBe(-0.3);
+  });
+
+  it('names the offending field of an invalid file', () => {
+    expect(() => parseBatchScenario({ parameters: { confidenceLevel: 1.5 } }, DEFAULT_PARAMETERS))
+      .toThrow(/parameters\.confidenceLevel/);
+    expect(() => parseBatchScenario({ parameters: { currencyPair: 'GBP/MYR' } }, DEFAULT_PARAMETERS))
+      .toThrow(/parameters\.currencyPair/);
+  });
+});
+
+describe('batch outputs', () => {
+  const imported = importTradeFile([
+    'Trade ID,Pair,Notional,Trade Date,Maturity Date,Side',
+    'A,USD/MYR,1000000,2026-01-02,2026-06-30,Buy',
+    'B,USD/MYR,400000,2026-01-02,2026-09-30,Sell',
+    'C,SGD/MYR,2000000,2026-01-02,2026-04-30,Buy',
+  ].join('\n'));
+  const result = runRiskBatch(imported.trades, parseBatchScenario({ asOfDate: '2026-03-02' }, DEFAULT_PARAMETERS));
+
+  it('runs the selected pair in full and every traded pair in the by-pair view', () => {
+    expect(imported.errors).toEqual([]);
+    expect(result.tradeCount).toBe(2);
+    expect(result.metrics.tradeValuations.map(valuation => valuation.id)).toEqual(['A', 'B']);
+    expect(result.pairRisk.map(row => row.pair)).toEqual(['USD/MYR', 'SGD/MYR']);
+  });
+
+  it('summarizes the measures without per-trade or per-path detail', () => {
+    const summary = summarizeBatch(result);
+
+    expect(summary).toMatchObject({ asOfDate: '2026-03-02', currencyPair: 'USD/MYR', tradeCount: 2 });
+    expect(summary.run?.asOfDate).toBe('2026-03-02');
+    expect(summary.metrics).not.toHaveProperty('tradeValuations');
+    expect(summary.monteCarlo).not.toHaveProperty('pnls');
+    expect(summary.metrics.valueAtRisk).toBe(result.metrics.valueAtRisk);
+  });
+
+  it('writes one CSV row per trade, pair and curve point', () => {
+    const files = batchCSVFiles(result);
+    const lines = (name: string) => files[name].trim().split('\n');
+
+    expect(lines('trade-valuations.csv')).toHaveLength(3);
+    expect(lines('pair-risk.csv')).toHaveLength(3);
+    expect(lines('sensitivity.csv')).toHaveLength(result.sensitivity.length + 1);
+    expect(lines('pair-risk.csv')[0]).toMatch(/^pair,trades,spot,shockedRate/);
+  });
+
+  it('quotes cells that hold delimiters or quotes', () => {
+    expect(toCSV(['a', 'b'], [['x,y', 'say "hi"']])).toBe('a,b\n"x,y","say ""hi"""\n');
+  });
+});
@@ -0,0 +1,240 @@
+// Risk Batch: the dashboard's risk run for a trade file and scenario file, written out as JSON and CSV for scheduled jobs
+
+import { z } from "zod";
+import {
+  buildPairScenario,
+  calculateRiskByPair,
+  formatAsOfDate,
+  generatePnLSensitivity,
+  parseAsOfDate,
+  type FXTrade,
+  type PairRisk,
+  type PairRiskOptions,
+  type RiskMetrics,
+  type RiskScenario,
+  type SensitivityPoint,
+  type SimulationParameters
+} from "./fx-calculations";
+import {
+  CURRENCY_PAIRS,
+  DEFAULT_PAIR_MARKETS,
+  filterTradesByPair,
+  type CurrencyPair,
+  type PairMarket
+} from "./currency-pairs";
+import type { MonteCarloResult } from "./monte-carlo";
+import {
+  calculatePortfolioVaR,
+  DEFAULT_CORRELATIONS,
+  setCorrelation,
+  type CorrelationMatrix,
+  type PortfolioVaR
+} from "./portfolio-var";
+import { buildSimulationJob, runSimulationJob } from "./simulation-engine";
+import { importTrades, parseCSV, suggestColumnMapping, type TradeImportResult } from "./trade-import";
+
+export interface BatchScenario {
+  asOfDate: Date;
+  parameters: SimulationParameters; // currencyPair picks the pair run in full, as on the dashboard
+  markets: Record<CurrencyPair, PairMarket>;
+  correlations: CorrelationMatrix;
+}
+
+export interface BatchResult {
+  scenario: BatchScenario;
+  tradeCount: number; // trades in the selected pair
+  metrics: RiskMetrics;
+  simulation: MonteCarloResult;
+  sensitivity: SensitivityPoint[];
+  pairRisk: PairRisk[];
+  portfolio: PortfolioVaR;
+}
+
+const PAIR_NAMES = CURRENCY_PAIRS.map(config => config.pair) as [CurrencyPair, ...CurrencyPair[]];
+const calendarDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected yyyy-MM-dd');
+
+// Parameters use the names the scenario library saves; anything omitted takes the dashboard default
+const batchScenarioSchema = z.object({
+  asOfDate: calendarDate.optional(),
+  parameters: z.object({
+    currencyPair: z.enum(PAIR_NAMES).optional(),
+    currentFXRate: z.number().positive().optional(),
+    volatility: z.number().positive().optional(),
+    interestRateShock: z.number().optional(),
+    timeHorizon: z.number().positive().optional(),
+    confidenceLevel: z.number().gt(0).lt(1).optional(),
+    seed: z.number().int().optional(),
+    asOfDate: calendarDate.optional(),
+  }).passthrough().optional(),
+  markets: z.record(z.enum(PAIR_NAMES), z.object({
+    spotRate: z.number().positive().optional(),
+    volatility: z.number().positive().optional(),
+  })).optional(),
+  correlations: z.record(z.enum(PAIR_NAMES), z.record(z.enum(PAIR_NAMES), z.number().min(-1).max(1))).optional(),
+});
+
+// Read a scenario file: { asOfDate?, parameters?, markets?, correlations? }, validated and merged with the defaults
+export function parseBatchScenario(
+  json: unknown,
+  defaults: SimulationParameters,
+  asOfDate: Date = new Date()
+): BatchScenario {
+  const result = batchScenarioSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid scenario file at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+  const input = result.data;
+
+  // A top-level date (as stamped on a run) wins over the parameters' date; both are local calendar dates like --as-of
+  const stamped = input.asOfDate ?? input.parameters?.asOfDate;
+  const date = stamped ? parseAsOfDate(stamped) : asOfDate;
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid scenario file at ${input.asOfDate ? 'asOfDate' : 'parameters.asOfDate'}: ${stamped}`);
+  }
+
+  const markets = Object.fromEntries(CURRENCY_PAIRS.map(({ pair }) => [
+    pair,
+    { ...DEFAULT_PAIR_MARKETS[pair], ...input.markets?.[pair] },
+  ])) as Record<CurrencyPair, PairMarket>;
+
+  // The selected pair's spot and volatility come from the parameters, falling back to its market
+  const pair = input.parameters?.currencyPair ?? defaults.currencyPair;
+  const parameters = {
+    ...defaults,
+    currentFXRate: markets[pair].spotRate,
+    volatility: markets[pair].volatility,
+    ...input.parameters,
+    asOfDate: formatAsOfDate(date),
+  } as SimulationParameters;
+  markets[pair] = { ...markets[pair], spotRate: parameters.currentFXRate, volatility: parameters.volatility };
+
+  let correlations = DEFAULT_CORRELATIONS;
+  Object.entries(input.correlations ?? {}).forEach(([a, row]) => Object.entries(row).forEach(([b, value]) => {
+    correlations = setCorrelation(correlations, a as CurrencyPair, b as CurrencyPair, value);
+  }));
+
+  return { asOfDate: date, parameters, markets, correlations };
+}
+
+// Import a trade blotter with the dashboard's column guessing and row validation
+export function importTradeFile(text: string): TradeImportResult {
+  const parsed = parseCSV(text);
+  return importTrades(parsed, suggestColumnMapping(parsed.headers));
+}
+
+// The selected pair gets the dashboard's full run (Monte Carlo, metrics, sensitivity); every pair gets the by-pair and portfolio VaR view
+export function runRiskBatch(
+  trades: FXTrade[],
+  scenario: BatchScenario,
+  histories: PairRiskOptions['histories'] = {}
+): BatchResult {
+  const { asOfDate, parameters, markets, correlations } = scenario;
+  const pairScenarios = Object.fromEntries(CURRENCY_PAIRS.map(({ pair }) => [
+    pair,
+    buildPairScenario(parameters, markets[pair]),
+  ])) as Record<CurrencyPair, RiskScenario>;
+
+  const pairTrades = filterTradesByPair(trades, parameters.currencyPair);
+  const riskScenario = pairScenarios[parameters.currencyPair];
+  const { simulation, metrics } = runSimulationJob(
+    buildSimulationJob(pairTrades, riskScenario, parameters, asOfDate, histories[parameters.currencyPair])
+  );
+  const sensitivity = generatePnLSensitivity(pairTrades, parameters.currentFXRate, 0.5, {
+    hedgeRatio: metrics.optimalHedgeRatio,
+    scenario: riskScenario,
+    asOfDate,
+  });
+
+  const pairRisk = calculateRiskByPair(trades, pairScenarios, {
+    confidenceLevel: parameters.confidenceLevel,
+    timeHorizon: parameters.timeHorizon,
+    hedgeRatioMethod: parameters.hedgeRatioMethod,
+    riskAversion: parameters.riskAversion,
+    exposureBasis: parameters.exposureBasis,
+    asOfDate,
+    histories,
+  });
+
+  return {
+    scenario,
+    tradeCount: pairTrades.length,
+    metrics,
+    simulation,
+    sensitivity,
+    pairRisk,
+    portfolio: calculatePortfolioVaR(pairRisk, correlations),
+  };
+}
+
+// JSON summary of a batch run; per-trade valuations and the sensitivity curve go to CSV instead
+export function summarizeBatch(result: BatchResult) {
+  const { metrics, simulation, portfolio } = result;
+  const { tradeValuations, run, ...measures } = metrics;
+
+  return {
+    asOfDate: formatAsOfDate(result.scenario.asOfDate),
+    currencyPair: result.scenario.parameters.currencyPair,
+    tradeCount: result.tradeCount,
+    run,
+    metrics: measures,
+    monteCarlo: {
+      numberOfPaths: simulation.numberOfPaths,
+      timeHorizon: simulation.timeHorizon,
+      seed: simulation.seed,
+      mean: simulation.mean,
+      stdDev: simulation.stdDev,
+      percentiles: simulation.percentiles,
+      tailRisk: simulation.tailRisk,
+    },
+    portfolio,
+  };
+}
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCSV(headers: string[], rows: Array<Array<string | number>>): string {
+  return [headers, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+// CSV outputs of a batch run, keyed by file name; amounts are MYR, notionals in each pair's base currency
+export function batchCSVFiles(result: BatchResult): Record<string, string> {
+  const contributions = new Map(result.portfolio.contributions.map(item => [item.pair, item]));
+
+  return {
+    'sensitivity.csv': toCSV(
+      ['fxRate', 'unhedgedPnL', 'hedgedPnL'],
+      // The curve is charted in millions; the file keeps whole MYR like the other outputs
+      result.sensitivity.map(point => [point.fxRate, point.pnl * 1000000, point.hedgedPnl * 1000000])
+    ),
+    'trade-valuations.csv': toCSV(
+      ['id', 'tenorYears', 'baseForward', 'shockedForward', 'pnl'],
+      result.metrics.tradeValuations.map(valuation => [
+        valuation.id,
+        valuation.tenorYears,
+        valuation.baseForward,
+        valuation.shockedForward,
+        valuation.pnl,
+      ])
+    ),
+    'pair-risk.csv': toCSV(
+      ['pair', 'trades', 'spot', 'shockedRate', 'netNotional', 'exposureMYR', 'unhedgedPnL', 'hedgedPnL', 'standaloneVaR', 'componentVaR', 'marginalVaR'],
+      result.pairRisk.map(row => [
+        row.pair,
+        row.tradeCount,
+        row.scenario.currentFXRate,
+        row.scenario.shockedFXRate,
+        row.metrics.exposure.netNotional,
+        row.exposureMYR,
+        row.metrics.unhedgedPnL,
+        row.metrics.hedgedPnL,
+        row.metrics.valueAtRisk,
+        contributions.get(row.pair)?.componentVaR ?? 0,
+        contributions.get(row.pair)?.marginalVaR ?? 0,
+      ])
+    ),
+  };
+}
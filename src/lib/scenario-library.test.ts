@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { buildRiskScenario, DEFAULT_PARAMETERS, type FXTrade } from "./fx-calculations";
+import { compareScenarios, createSavedScenario, loadSavedScenarios, persistSavedScenarios } from "./scenario-library";
+import { applyStressScenario, STRESS_CATALOGUE } from "./stress-scenarios";
+
+const receivable: FXTrade = {
+  id: 'R1',
+  notional: 1000000,
+  tradeDate: new Date(2026, 0, 1),
+  maturityDate: new Date(2026, 6, 1),
+  direction: 'long',
+};
+
+const saveOn = (asOfDate: string | undefined) => {
+  const parameters = { ...DEFAULT_PARAMETERS, asOfDate: asOfDate as string };
+  return createSavedScenario(asOfDate ?? 'undated', parameters, buildRiskScenario(parameters));
+};
+
+describe('compareScenarios', () => {
+  it('values each scenario at its own as-of date', () => {
+    const [january, april] = compareScenarios([receivable], [saveOn('2026-01-01'), saveOn('2026-04-01')], {
+      asOfDate: new Date(2026, 5, 1),
+    });
+
+    expect(january.metrics.tradeValuations[0].tenorYears).toBeCloseTo(181 / 365, 2);
+    expect(april.metrics.tradeValuations[0].tenorYears).toBeCloseTo(91 / 365, 2);
+  });
+
+  it('falls back to the given as-of date for scenarios saved without one', () => {
+    const [undated] = compareScenarios([receivable], [saveOn(undefined)], { asOfDate: new Date(2026, 5, 1) });
+    expect(undated.metrics.tradeValuations[0].tenorYears).toBeCloseTo(30 / 365, 2);
+  });
+});
+
+describe('saved stresses', () => {
+  it('keeps the applied stress id alongside the stressed scenario through storage', () => {
+    const stress = STRESS_CATALOGUE[0];
+    const stressed = applyStressScenario(buildRiskScenario(DEFAULT_PARAMETERS), stress);
+    const items = new Map<string, string>();
+    const storage: Storage = {
+      get length() { return items.size; },
+      key: index => [...items.keys()][index] ?? null,
+      getItem: key => items.get(key) ?? null,
+      setItem: (key, value) => { items.set(key, value); },
+      removeItem: key => { items.delete(key); },
+      clear: () => items.clear(),
+    };
+
+    persistSavedScenarios([createSavedScenario('Stressed', DEFAULT_PARAMETERS, stressed, stress.id)], storage);
+    const [loaded] = loadSavedScenarios(storage);
+    expect(loaded.stressId).toBe(stress.id);
+    expect(loaded.scenario.shockedFXRate).toBeCloseTo(stressed.shockedFXRate, 12);
+    expect(createSavedScenario('Plain', DEFAULT_PARAMETERS, stressed)).not.toHaveProperty('stressId');
+  });
+});
@@ -0,0 +1,136 @@
+// Scenario Library: named parameter sets persisted in browser storage and compared side by side
+
+import { z } from "zod";
+import {
+  calculateRiskMetrics,
+  generatePnLSensitivity,
+  parseAsOfDate,
+  type FXTrade,
+  type PairRiskOptions,
+  type RiskMetrics,
+  type RiskScenario,
+  type SensitivityPoint,
+  type SimulationParameters
+} from "./fx-calculations";
+import { DEFAULT_PAIR, filterTradesByPair } from "./currency-pairs";
+
+export const SCENARIO_STORAGE_KEY = 'treasury-risk:saved-scenarios';
+
+export interface SavedScenario {
+  id: string;
+  name: string;
+  savedAt: string; // ISO timestamp
+  parameters: SimulationParameters;
+  scenario: RiskScenario; // includes the stress's shocks when one was applied
+  stressId?: string; // catalogue stress applied when saved, re-applied on load
+}
+
+export interface ScenarioResult {
+  saved: SavedScenario;
+  metrics: RiskMetrics;
+  sensitivity: SensitivityPoint[];
+}
+
+export interface ScenarioComparisonOptions {
+  asOfDate?: Date; // for scenarios saved without an as-of date of their own
+  histories?: PairRiskOptions['histories'];
+}
+
+// Shape check only: parameter sets saved by older versions are merged with current defaults on load
+const savedScenarioSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  savedAt: z.string(),
+  parameters: z.object({
+    currentFXRate: z.number(),
+    interestRateShock: z.number(),
+    volatility: z.number(),
+  }).passthrough(),
+  scenario: z.object({
+    currentFXRate: z.number(),
+    shockedFXRate: z.number(),
+    interestRateShock: z.number(),
+    volatility: z.number(),
+  }).passthrough(),
+  stressId: z.string().optional(),
+});
+
+const browserStorage = (): Storage | undefined =>
+  typeof window !== 'undefined' ? window.localStorage : undefined;
+
+// Read saved scenarios, dropping entries that no longer parse
+export function loadSavedScenarios(storage: Storage | undefined = browserStorage()): SavedScenario[] {
+  const raw = storage?.getItem(SCENARIO_STORAGE_KEY);
+  if (!raw) return [];
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap(entry => {
+      const result = savedScenarioSchema.safeParse(entry);
+      return result.success ? [result.data as unknown as SavedScenario] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function persistSavedScenarios(
+  scenarios: SavedScenario[],
+  storage: Storage | undefined = browserStorage()
+): void {
+  storage?.setItem(SCENARIO_STORAGE_KEY, JSON.stringify(scenarios));
+}
+
+export function createSavedScenario(
+  name: string,
+  parameters: SimulationParameters,
+  scenario: RiskScenario,
+  stressId?: string
+): SavedScenario {
+  return {
+    id: `SCN-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`,
+    name: name.trim(),
+    savedAt: new Date().toISOString(),
+    parameters: { ...parameters },
+    scenario: { ...scenario },
+    ...(stressId && { stressId }),
+  };
+}
+
+// Run each saved scenario against the same trade book, restricted to the pair it was saved on
+// and valued at its own as-of date, as loading it would
+export function compareScenarios(
+  trades: FXTrade[],
+  scenarios: SavedScenario[],
+  options: ScenarioComparisonOptions = {}
+): ScenarioResult[] {
+  const { histories = {} } = options;
+
+  return scenarios.map(saved => {
+    const { parameters, scenario } = saved;
+    const savedAsOf = parameters.asOfDate ? parseAsOfDate(parameters.asOfDate) : null;
+    const asOfDate = savedAsOf && !isNaN(savedAsOf.getTime()) ? savedAsOf : options.asOfDate ?? new Date();
+    // Scenarios saved before multi-currency support were all USD/MYR
+    const pair = parameters.currencyPair ?? DEFAULT_PAIR;
+    const pairTrades = filterTradesByPair(trades, pair);
+    const { rateHistory, spotForwardHistory } = histories[pair] ?? {};
+    const metrics = calculateRiskMetrics(pairTrades, scenario, {
+      confidenceLevel: parameters.confidenceLevel,
+      timeHorizon: parameters.timeHorizon,
+      rateHistory,
+      hedgeRatioMethod: parameters.hedgeRatioMethod,
+      spotForwardHistory,
+      riskAversion: parameters.riskAversion,
+      exposureBasis: parameters.exposureBasis,
+      asOfDate,
+    });
+    const sensitivity = generatePnLSensitivity(pairTrades, scenario.currentFXRate, 0.5, {
+      hedgeRatio: metrics.optimalHedgeRatio,
+      scenario,
+      asOfDate,
+    });
+
+    return { saved, metrics, sensitivity };
+  });
+}
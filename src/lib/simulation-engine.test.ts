@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildRiskScenario,
+  DEFAULT_PARAMETERS,
+  generateFXTrades,
+  parseAsOfDate,
+  type SimulationParameters
+} from "./fx-calculations";
+import { filterTradesByPair } from "./currency-pairs";
+import { createSeededRandom } from "./random";
+import { buildSimulationJob, runSimulationJob } from "./simulation-engine";
+
+const parameters: SimulationParameters = { ...DEFAULT_PARAMETERS, numberOfTrades: 12, seed: 7, asOfDate: '2026-03-02' };
+
+// A dashboard run from its parameters alone, as loading a saved scenario or replaying a stamp does
+const runFrom = (stamped: SimulationParameters) => {
+  const asOfDate = parseAsOfDate(stamped.asOfDate);
+  const trades = filterTradesByPair(generateFXTrades(stamped.numberOfTrades, stamped.seed, asOfDate), stamped.currencyPair);
+  return runSimulationJob(buildSimulationJob(trades, buildRiskScenario(stamped), stamped, asOfDate));
+};
+
+describe('seeded generation', () => {
+  it('draws the same sequence for the same seed', () => {
+    const first = createSeededRandom(99);
+    const second = createSeededRandom(99);
+    const draws = Array.from({ length: 5 }, () => first());
+    expect(Array.from({ length: 5 }, () => second())).toEqual(draws);
+    draws.forEach(draw => expect(draw).toBeGreaterThanOrEqual(0));
+    draws.forEach(draw => expect(draw).toBeLessThan(1));
+  });
+
+  it('builds the same book for the same seed and as-of date, and moves maturities with the date', () => {
+    const asOfDate = parseAsOfDate(parameters.asOfDate);
+    const book = generateFXTrades(12, 7, asOfDate);
+    expect(generateFXTrades(12, 7, asOfDate)).toEqual(book);
+    expect(generateFXTrades(12, 8, asOfDate)).not.toEqual(book);
+
+    const later = generateFXTrades(12, 7, new Date(asOfDate.getTime() + 24 * 60 * 60 * 1000));
+    later.forEach((trade, i) => {
+      expect(trade.notional).toBe(book[i].notional);
+      expect(trade.maturityDate.getTime() - book[i].maturityDate.getTime()).toBe(24 * 60 * 60 * 1000);
+    });
+  });
+});
+
+describe('run replay', () => {
+  it('stamps the seed, as-of date and parameters, and replays the same results from them', () => {
+    const original = runFrom(parameters);
+    const stamp = original.metrics.run!;
+    expect(stamp).toMatchObject({ seed: 7, asOfDate: '2026-03-02', parameters });
+
+    const replayed = runFrom(stamp.parameters);
+    expect(replayed.simulation.pnls).toEqual(original.simulation.pnls);
+    expect(replayed.metrics.valueAtRisk).toBe(original.metrics.valueAtRisk);
+    expect(replayed.metrics.unhedgedPnL).toBe(original.metrics.unhedgedPnL);
+  });
+
+  it('values the book at the stamped as-of date', () => {
+    const asOfDate = parseAsOfDate(parameters.asOfDate);
+    const trades = generateFXTrades(parameters.numberOfTrades, parameters.seed, asOfDate);
+    const runAt = (date: string) =>
+      runSimulationJob(buildSimulationJob(trades, buildRiskScenario(parameters), { ...parameters, asOfDate: date }, parseAsOfDate(date)));
+
+    const later = runAt('2026-06-02');
+    expect(later.metrics.run!.asOfDate).toBe('2026-06-02');
+    expect(later.metrics.tradeValuations[0].tenorYears).toBeLessThan(runAt(parameters.asOfDate).metrics.tradeValuations[0].tenorYears);
+  });
+});
@@ -0,0 +1,90 @@
+// Simulation Engine: a dashboard run (Monte Carlo plus risk metrics) as a job that can run off the main thread
+
+import {
+  calculateRiskMetrics,
+  formatAsOfDate,
+  type FXTrade,
+  type RiskMetrics,
+  type RiskMetricsOptions,
+  type RiskScenario,
+  type SimulationParameters
+} from "./fx-calculations";
+import { runMonteCarloSimulation, type MonteCarloOptions, type MonteCarloResult } from "./monte-carlo";
+
+export interface SimulationJob {
+  trades: FXTrade[];
+  scenario: RiskScenario;
+  monteCarlo: Omit<MonteCarloOptions, 'onProgress'>;
+  metrics: Omit<RiskMetricsOptions, 'simulatedPnLs'>; // the job's Monte Carlo P&Ls are passed in
+}
+
+export interface SimulationOutput {
+  simulation: MonteCarloResult;
+  metrics: RiskMetrics;
+}
+
+// Messages between the page and the simulation worker; the id ties replies to the run that asked
+export interface SimulationRequest {
+  id: number;
+  job: SimulationJob;
+}
+
+export type SimulationResponse =
+  | { id: number; type: 'progress'; progress: number } // 0–1
+  | { id: number; type: 'result'; output: SimulationOutput }
+  | { id: number; type: 'error'; message: string };
+
+// The dashboard's run of a pair's trades under its scenario; the batch CLI builds the same job so both agree
+export function buildSimulationJob(
+  trades: FXTrade[],
+  scenario: RiskScenario,
+  parameters: SimulationParameters,
+  asOfDate: Date,
+  history: Pick<RiskMetricsOptions, 'rateHistory' | 'spotForwardHistory'> = {}
+): SimulationJob {
+  return {
+    trades,
+    scenario,
+    monteCarlo: {
+      timeHorizon: parameters.timeHorizon,
+      confidenceLevel: parameters.confidenceLevel,
+      seed: parameters.seed,
+      asOfDate,
+    },
+    metrics: {
+      confidenceLevel: parameters.confidenceLevel,
+      timeHorizon: parameters.timeHorizon,
+      ...history,
+      hedgeRatioMethod: parameters.hedgeRatioMethod,
+      riskAversion: parameters.riskAversion,
+      exposureBasis: parameters.exposureBasis,
+      asOfDate,
+      run: {
+        seed: parameters.seed,
+        asOfDate: formatAsOfDate(asOfDate),
+        parameters: { ...parameters },
+        scenario: { ...scenario },
+      },
+    },
+  };
+}
+
+// Share of progress given to the Monte Carlo; the rest covers parametric, historical and hedge ratio metrics
+const MONTE_CARLO_SHARE = 0.8;
+
+export function runSimulationJob(
+  job: SimulationJob,
+  onProgress: (progress: number) => void = () => {}
+): SimulationOutput {
+  const simulation = runMonteCarloSimulation(job.trades, job.scenario, {
+    ...job.monteCarlo,
+    onProgress: fraction => onProgress(MONTE_CARLO_SHARE * fraction),
+  });
+  const metrics = calculateRiskMetrics(job.trades, job.scenario, {
+    ...job.metrics,
+    simulatedPnLs: simulation.pnls,
+  });
+  onProgress(1);
+
+  return { simulation, metrics };
+}
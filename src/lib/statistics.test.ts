@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { inverseNormalCDF, normalCDF, normalPDF } from "./statistics";
+
+describe('inverseNormalCDF', () => {
+  it('matches tabulated quantiles', () => {
+    expect(inverseNormalCDF(0.5)).toBeCloseTo(0, 12);
+    expect(inverseNormalCDF(0.95)).toBeCloseTo(1.644854, 6);
+    expect(inverseNormalCDF(0.975)).toBeCloseTo(1.959964, 6);
+    expect(inverseNormalCDF(0.01)).toBeCloseTo(-2.326348, 6);
+  });
+
+  it('inverts normalCDF across both tails and the centre', () => {
+    [0.001, 0.02, 0.3, 0.7, 0.99, 0.999].forEach(p => expect(normalCDF(inverseNormalCDF(p))).toBeCloseTo(p, 6));
+  });
+
+  it('rejects probabilities outside (0, 1)', () => {
+    expect(() => inverseNormalCDF(0)).toThrow(RangeError);
+    expect(() => inverseNormalCDF(1)).toThrow(RangeError);
+  });
+});
+
+describe('normal density and distribution', () => {
+  it('peaks at 1/√(2π) and is symmetric', () => {
+    expect(normalPDF(0)).toBeCloseTo(1 / Math.sqrt(2 * Math.PI), 12);
+    expect(normalPDF(1.3)).toBeCloseTo(normalPDF(-1.3), 12);
+    expect(normalCDF(-1.3) + normalCDF(1.3)).toBeCloseTo(1, 7);
+  });
+});
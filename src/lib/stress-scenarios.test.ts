@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { CURRENCY_PAIRS, DEFAULT_PAIR_MARKETS, type CurrencyPair } from "./currency-pairs";
+import { buildPairScenario, buildRiskScenario, DEFAULT_PARAMETERS, type FXTrade, type RiskScenario } from "./fx-calculations";
+import {
+  applyStressScenario,
+  applyStressToPairs,
+  runStressTests,
+  STRESS_CATALOGUE,
+  stressAppliesTo,
+  type StressScenario
+} from "./stress-scenarios";
+
+const asOfDate = new Date(2026, 0, 1);
+const base = buildRiskScenario(DEFAULT_PARAMETERS);
+const usdTrade = (direction: FXTrade['direction']): FXTrade => ({
+  id: direction,
+  notional: 1000000,
+  direction,
+  tradeDate: asOfDate,
+  maturityDate: new Date(2026, 6, 1),
+});
+const stressById = (id: string) => STRESS_CATALOGUE.find(stress => stress.id === id)!;
+
+describe('runStressTests', () => {
+  it('ranks stresses worst first for the book it is given', () => {
+    const receivables = runStressTests([usdTrade('long')], base, STRESS_CATALOGUE, { asOfDate });
+    const payables = runStressTests([usdTrade('short')], base, STRESS_CATALOGUE, { asOfDate });
+
+    [receivables, payables].forEach(results => {
+      expect(results).toHaveLength(STRESS_CATALOGUE.length);
+      results.slice(1).forEach((result, i) => expect(result.unhedgedPnL).toBeGreaterThanOrEqual(results[i].unhedgedPnL));
+    });
+    // A weaker USD hurts USD receivables most; a stronger one hurts payables
+    expect(receivables[0].stress.spotMove).toBeLessThan(0);
+    expect(payables[0].stress.spotMove).toBeGreaterThan(0);
+  });
+});
+
+describe('applyStressScenario', () => {
+  it('moves spot, shocks the curves and shifts volatility', () => {
+    const stress = stressById('usd-up-20');
+    const stressed = applyStressScenario(base, stress);
+    expect(stressed.shockedFXRate).toBeCloseTo(base.currentFXRate * 1.2, 12);
+    expect(stressed.shockedSpotRate).toBe(stressed.shockedFXRate);
+    expect(stressed.volatility).toBeCloseTo(base.volatility + stress.volatilityShift, 12);
+    expect(stressed.currentFXRate).toBe(base.currentFXRate);
+  });
+
+  it('keeps volatility positive', () => {
+    const calm: StressScenario = { ...stressById('usd-up-20'), volatilityShift: -1 };
+    expect(applyStressScenario(base, calm).volatility).toBeGreaterThan(0);
+  });
+});
+
+describe('applyStressToPairs', () => {
+  const scenarios = Object.fromEntries(CURRENCY_PAIRS.map(({ pair }) => [
+    pair,
+    buildPairScenario(DEFAULT_PARAMETERS, DEFAULT_PAIR_MARKETS[pair]),
+  ])) as Record<CurrencyPair, RiskScenario>;
+
+  it('stresses only the pairs a stress names', () => {
+    const stress = stressById('afc-1997');
+    const stressed = applyStressToPairs(scenarios, stress);
+
+    CURRENCY_PAIRS.forEach(({ pair }) => {
+      if (stressAppliesTo(stress, pair)) {
+        expect(stressed[pair].shockedFXRate).toBeCloseTo(scenarios[pair].currentFXRate * (1 + stress.spotMove), 12);
+      } else {
+        expect(stressed[pair]).toBe(scenarios[pair]);
+      }
+    });
+    expect(stressAppliesTo(stress, 'USD/MYR')).toBe(true);
+    expect(stressAppliesTo(stress, 'SGD/MYR')).toBe(false);
+  });
+
+  it('leaves every pair alone without a stress', () => {
+    expect(applyStressToPairs(scenarios, null)).toBe(scenarios);
+  });
+});
@@ -0,0 +1,173 @@
+// Stress Scenario Catalogue: historical and hypothetical USD/MYR stresses applied in one step
+
+import {
+  calculateRiskMetrics,
+  type ExposureBasis,
+  type FXTrade,
+  type RiskScenario
+} from "./fx-calculations";
+import type { CurrencyPair } from "./currency-pairs";
+import { applyCurveShock, DEFAULT_CURVES, type CurveShock } from "./yield-curves";
+
+export type StressCategory = 'historical' | 'policy' | 'hypothetical';
+
+export interface StressScenario {
+  id: string;
+  name: string;
+  category: StressCategory;
+  description: string;
+  pairs: CurrencyPair[]; // pairs the event moved; other pairs stay on their unstressed scenario
+  spotMove: number; // relative move of those pairs, +0.2 = base currency up 20% against MYR
+  curveShocks: CurveShock[]; // applied in order
+  volatilityShift: number; // added to annualized volatility
+}
+
+export interface StressResult {
+  stress: StressScenario;
+  scenario: RiskScenario;
+  unhedgedPnL: number;
+  hedgedPnL: number;
+  hedgeRatio: number;
+  valueAtRisk: number; // at the stressed volatility
+}
+
+export interface StressTestOptions {
+  asOfDate?: Date;
+  confidenceLevel?: number;
+  timeHorizon?: number; // days
+  exposureBasis?: ExposureBasis;
+}
+
+// Moves are approximate peak-to-trough sizes, rounded; calibrate to BNM and Fed data before relying on them
+export const STRESS_CATALOGUE: StressScenario[] = [
+  {
+    id: 'afc-1997',
+    name: 'Asian Financial Crisis 1997',
+    category: 'historical',
+    description: 'Ringgit falls from 2.50 to the 3.80 peg; interbank rates spike before capital controls',
+    pairs: ['USD/MYR'],
+    spotMove: 0.5,
+    curveShocks: [{ type: 'parallel', target: 'MYR', bps: 400 }],
+    volatilityShift: 0.2,
+  },
+  {
+    id: 'ringgit-2015',
+    name: '2015 Ringgit Slump',
+    category: 'historical',
+    description: 'Oil collapse and 1MDB outflows take USD/MYR from 3.50 to 4.45; first Fed hike',
+    pairs: ['USD/MYR'],
+    spotMove: 0.25,
+    curveShocks: [
+      { type: 'parallel', target: 'MYR', bps: 50 },
+      { type: 'parallel', target: 'USD', bps: 25 },
+    ],
+    volatilityShift: 0.08,
+  },
+  {
+    id: 'fed-2022',
+    name: '2022 Fed Hikes',
+    category: 'historical',
+    description: 'Fed funds +425bps with a flattening USD curve; OPR +100bps; USD/MYR 4.18 to 4.70',
+    pairs: ['USD/MYR'],
+    spotMove: 0.12,
+    curveShocks: [
+      { type: 'parallel', target: 'USD', bps: 350 },
+      { type: 'flattener', target: 'USD', bps: 150 },
+      { type: 'parallel', target: 'MYR', bps: 100 },
+    ],
+    volatilityShift: 0.04,
+  },
+  {
+    id: 'bnm-cut',
+    name: 'BNM 100bps Rate Cut',
+    category: 'policy',
+    description: 'OPR cut by 100bps across the MYR curve with a mild ringgit sell-off',
+    pairs: ['USD/MYR'],
+    spotMove: 0.03,
+    curveShocks: [{ type: 'parallel', target: 'MYR', bps: -100 }],
+    volatilityShift: 0.02,
+  },
+  {
+    id: 'usd-up-20',
+    name: 'USD/MYR +20%',
+    category: 'hypothetical',
+    description: 'Instantaneous 20% ringgit depreciation, curves unchanged',
+    pairs: ['USD/MYR'],
+    spotMove: 0.2,
+    curveShocks: [],
+    volatilityShift: 0.05,
+  },
+  {
+    id: 'usd-down-20',
+    name: 'USD/MYR -20%',
+    category: 'hypothetical',
+    description: 'Instantaneous 20% ringgit appreciation, curves unchanged',
+    pairs: ['USD/MYR'],
+    spotMove: -0.2,
+    curveShocks: [],
+    volatilityShift: 0.05,
+  },
+];
+
+export const stressAppliesTo = (stress: StressScenario, pair: CurrencyPair) => stress.pairs.includes(pair);
+
+// Each pair's scenario, replaced by the stressed scenario for the pairs the stress names
+export function applyStressToPairs(
+  scenarios: Record<CurrencyPair, RiskScenario>,
+  stress: StressScenario | null
+): Record<CurrencyPair, RiskScenario> {
+  if (!stress) return scenarios;
+  return Object.fromEntries(Object.entries(scenarios).map(([pair, scenario]) => [
+    pair,
+    stressAppliesTo(stress, pair as CurrencyPair) ? applyStressScenario(scenario, stress) : scenario,
+  ])) as Record<CurrencyPair, RiskScenario>;
+}
+
+// Stressed scenario: spot moved, curves shocked from the base curves, volatility shifted
+export function applyStressScenario(base: RiskScenario, stress: StressScenario): RiskScenario {
+  const curves = base.curves ?? DEFAULT_CURVES;
+  const shockedCurves = stress.curveShocks.reduce(applyCurveShock, curves);
+  const myrShock = stress.curveShocks
+    .filter(shock => shock.target !== 'USD' && shock.type === 'parallel')
+    .reduce((sum, shock) => sum + shock.bps, 0);
+
+  return {
+    ...base,
+    shockedFXRate: base.currentFXRate * (1 + stress.spotMove),
+    shockedSpotRate: base.currentFXRate * (1 + stress.spotMove),
+    interestRateShock: myrShock,
+    volatility: Math.max(0.001, base.volatility + stress.volatilityShift),
+    curves,
+    shockedCurves,
+  };
+}
+
+// Run every stress on the book and rank by unhedged loss, worst first
+export function runStressTests(
+  trades: FXTrade[],
+  base: RiskScenario,
+  catalogue: StressScenario[] = STRESS_CATALOGUE,
+  options: StressTestOptions = {}
+): StressResult[] {
+  const { asOfDate = new Date(), confidenceLevel, timeHorizon, exposureBasis } = options;
+
+  return catalogue
+    .map(stress => {
+      const scenario = applyStressScenario(base, stress);
+      const metrics = calculateRiskMetrics(trades, scenario, {
+        asOfDate,
+        confidenceLevel,
+        timeHorizon,
+        exposureBasis,
+      });
+      return {
+        stress,
+        scenario,
+        unhedgedPnL: metrics.unhedgedPnL,
+        hedgedPnL: metrics.hedgedPnL,
+        hedgeRatio: metrics.optimalHedgeRatio,
+        valueAtRisk: metrics.valueAtRisk,
+      };
+    })
+    .sort((a, b) => a.unhedgedPnL - b.unhedgedPnL);
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { getMaturityBucket, parseAsOfDate } from "./fx-calculations";
+import {
+  importTrades,
+  normalizeDate,
+  normalizeDirection,
+  normalizeNotional,
+  parseCSV,
+  suggestColumnMapping
+} from "./trade-import";
+
+const HEADER = 'Trade ID,Pair,Notional,Trade Date,Maturity Date,Side';
+
+const importText = (text: string, existingIds: string[] = []) => {
+  const parsed = parseCSV(text);
+  return importTrades(parsed, suggestColumnMapping(parsed.headers), existingIds);
+};
+
+describe('parseCSV', () => {
+  it('handles quoted delimiters, escaped quotes and CRLF', () => {
+    const parsed = parseCSV('a,b\r\n"1,000","say ""hi"""\r\n');
+    expect(parsed.rows).toEqual([['1,000', 'say "hi"']]);
+  });
+
+  it('detects semicolon-delimited files', () => {
+    expect(parseCSV('a;b\n1;2').delimiter).toBe(';');
+  });
+
+  it('records the source line of each row past blank lines and multi-line fields', () => {
+    const parsed = parseCSV('id,note\nA,x\n\n\nB,"two\nlines"\nC,y\n');
+    expect(parsed.rows.map(row => row[0])).toEqual(['A', 'B', 'C']);
+    expect(parsed.lines).toEqual([2, 5, 7]);
+  });
+});
+
+describe('importTrades', () => {
+  it('imports valid rows and flips negative notionals', () => {
+    const result = importText(`${HEADER}\nA,SGD/MYR,"(250,000)",2026-01-05,2026-07-05,Buy\n`);
+
+    expect(result.errors).toEqual([]);
+    expect(result.trades).toEqual([{
+      id: 'A',
+      pair: 'SGD/MYR',
+      notional: 250000,
+      tradeDate: new Date(2026, 0, 5),
+      maturityDate: new Date(2026, 6, 5),
+      direction: 'short',
+    }]);
+  });
+
+  it('rejects duplicate trade IDs within the file and against the book', () => {
+    const result = importText([
+      HEADER,
+      'A,USD/MYR,1m,2026-01-05,2026-07-05,buy',
+      'A,USD/MYR,2m,2026-01-05,2026-07-05,sell',
+      'B,USD/MYR,1m,2026-01-05,2026-07-05,buy',
+    ].join('\n'), ['B']);
+
+    expect(result.trades.map(trade => trade.id)).toEqual(['A']);
+    expect(result.errors).toEqual([
+      { row: 3, field: 'id', value: 'A', message: 'Duplicate trade ID A' },
+      { row: 4, field: 'id', value: 'B', message: 'Duplicate trade ID B' },
+    ]);
+  });
+
+  it('reports bad dates on their source lines after blank lines', () => {
+    const result = importText([
+      HEADER,
+      '',
+      'A,USD/MYR,1m,31/02/2026,2026-07-05,buy',
+      '',
+      'B,USD/MYR,1m,2026-07-05,2026-01-05,buy',
+    ].join('\n'));
+
+    expect(result.trades).toEqual([]);
+    expect(result.errors).toEqual([
+      { row: 3, field: 'tradeDate', value: '31/02/2026', message: 'Unrecognised trade date' },
+      { row: 5, field: 'maturityDate', value: '2026-01-05', message: 'Maturity date must be after trade date' },
+    ]);
+  });
+
+  it('reports unmapped required columns against the header', () => {
+    const result = importText('id,notional\nA,1m');
+    expect(result.errors.map(error => [error.row, error.field])).toEqual([
+      [1, 'tradeDate'],
+      [1, 'maturityDate'],
+      [1, 'direction'],
+    ]);
+  });
+});
+
+describe('field normalisation', () => {
+  it('reads the date formats desks send', () => {
+    const expected = new Date(2026, 2, 15);
+    expect(normalizeDate('2026-03-15')).toEqual(expected);
+    expect(normalizeDate('15/03/2026')).toEqual(expected);
+    expect(normalizeDate('15-Mar-26')).toEqual(expected);
+    expect(normalizeDate('46096')).toEqual(expected);
+    expect(normalizeDate('2026-02-30')).toBeNull();
+  });
+
+  it('reads notionals with symbols and suffixes', () => {
+    expect(normalizeNotional('USD 1.5m')).toBe(1500000);
+    expect(normalizeNotional('$250k')).toBe(250000);
+    expect(normalizeNotional('abc')).toBeNaN();
+  });
+
+  it('maps buy/sell onto long/short', () => {
+    expect(normalizeDirection('Bought')).toBe('long');
+    expect(normalizeDirection('S')).toBe('short');
+    expect(normalizeDirection('hold')).toBeNull();
+  });
+});
+
+describe('imported maturities', () => {
+  it('fall in the same bucket as the blotter shows them, whatever the time zone', () => {
+    const asOfDate = parseAsOfDate('2026-06-01');
+    const { trades } = importText([
+      HEADER,
+      'A,USD/MYR,1000000,2026-05-15,2026-07-01,Buy',
+      'B,USD/MYR,1000000,15/05/2026,02/07/2026,Buy',
+      'C,USD/MYR,1000000,46157,46205,Buy', // 2026-05-15 and 2026-07-02 as Excel serials
+    ].join('\n'));
+
+    expect(trades.map(trade => getMaturityBucket(trade, asOfDate))).toEqual(['0–1M', '1–3M', '1–3M']);
+    expect(trades[0].maturityDate.getDate()).toBe(1);
+  });
+});
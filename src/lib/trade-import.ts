@@ -0,0 +1,298 @@
+// Trade Blotter Import: CSV parsing, column mapping and row validation
+
+import { z } from "zod";
+import type { FXTrade } from "./fx-calculations";
+import { CURRENCY_PAIRS, DEFAULT_PAIR, type CurrencyPair } from "./currency-pairs";
+
+export type TradeField = 'id' | 'pair' | 'notional' | 'tradeDate' | 'maturityDate' | 'direction';
+
+export type ColumnMapping = Record<TradeField, number | null>; // field -> column index
+
+export interface ParsedCSV {
+  headers: string[];
+  rows: string[][];
+  lines: number[]; // 1-based source line each row starts on, after blank rows and multi-line fields
+  delimiter: string;
+}
+
+export interface RowError {
+  row: number; // 1-based line number in the source file
+  field: TradeField | 'row';
+  value: string;
+  message: string;
+}
+
+export interface TradeImportResult {
+  trades: FXTrade[];
+  errors: RowError[];
+  totalRows: number;
+}
+
+export const TRADE_FIELDS: Array<{ field: TradeField; label: string; required: boolean }> = [
+  { field: 'id', label: 'Trade ID', required: false },
+  { field: 'pair', label: 'Currency Pair', required: false },
+  { field: 'notional', label: 'Notional (base currency)', required: true },
+  { field: 'tradeDate', label: 'Trade Date', required: true },
+  { field: 'maturityDate', label: 'Maturity Date', required: true },
+  { field: 'direction', label: 'Direction', required: true },
+];
+
+// Common header spellings seen on deal tickets, used to pre-fill the mapping
+const HEADER_ALIASES: Record<TradeField, string[]> = {
+  id: ['id', 'tradeid', 'dealid', 'ticket', 'ticketno', 'dealno', 'reference', 'ref'],
+  pair: ['pair', 'currencypair', 'ccypair', 'ccy', 'currency', 'instrument', 'symbol'],
+  notional: ['notional', 'notionalusd', 'usdnotional', 'amount', 'amountusd', 'usdamount', 'nominal', 'principal'],
+  tradeDate: ['tradedate', 'dealdate', 'bookingdate', 'date', 'executiondate'],
+  maturityDate: ['maturitydate', 'maturity', 'valuedate', 'settlementdate', 'settledate', 'expiry', 'expirydate'],
+  direction: ['direction', 'side', 'buysell', 'bs', 'longshort', 'position'],
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Pick the delimiter that splits the header line into the most columns
+function detectDelimiter(headerLine: string): string {
+  const candidates = [',', ';', '\t', '|'];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  , ',');
+}
+
+// Parse CSV text with quoted fields, escaped quotes and CRLF line endings
+export function parseCSV(text: string): ParsedCSV {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = detectDelimiter(firstLine);
+  const records: Array<{ cells: string[]; line: number }> = [];
+
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    const isNewline = char === '\n' || char === '\r';
+    if (isNewline && char === '\r' && content[i + 1] === '\n') i++;
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += isNewline ? '\n' : char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field.trim());
+      field = '';
+    } else if (isNewline) {
+      record.push(field.trim());
+      records.push({ cells: record, line: recordLine });
+      record = [];
+      field = '';
+      recordLine = line + 1;
+    } else {
+      field += char;
+    }
+
+    if (isNewline) line++;
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field.trim());
+    records.push({ cells: record, line: recordLine });
+  }
+
+  const [header, ...body] = records;
+  const rows = body.filter(({ cells }) => cells.some(cell => cell !== ''));
+  return {
+    headers: header?.cells ?? [],
+    rows: rows.map(({ cells }) => cells),
+    lines: rows.map(({ line }) => line),
+    delimiter,
+  };
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+// Guess which column holds each trade field from its header
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+
+  for (const { field } of TRADE_FIELDS) {
+    const index = normalized.findIndex(header => HEADER_ALIASES[field].includes(header));
+    mapping[field] = index >= 0 ? index : null;
+  }
+
+  return mapping;
+}
+
+// Accept ISO, DD/MM/YYYY, DD-MMM-YYYY and Excel serial dates
+export function normalizeDate(value: string): Date | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  if (/^\d{5}(\.\d+)?$/.test(text)) {
+    return new Date(1899, 11, 30 + Math.floor(parseFloat(text))); // Excel serial day
+  }
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return buildDate(+match[1], +match[2], +match[3]);
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+  if (match) return buildDate(expandYear(+match[3]), +match[2], +match[1]);
+
+  match = text.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s-](\d{2,4})$/);
+  if (match) {
+    const month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+    return month > 0 ? buildDate(expandYear(+match[3]), month, +match[1]) : null;
+  }
+
+  return null;
+}
+
+function expandYear(year: number): number {
+  return year < 100 ? 2000 + year : year;
+}
+
+// Local midnight, like the as-of date and blotter edits, so days to maturity are whole days
+function buildDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+// Strip currency codes, symbols and separators; expand K/M/B suffixes; "(1,000)" is negative
+export function normalizeNotional(value: string): number {
+  let text = value.trim().replace(/us\$|s\$|cn¥|usd|sgd|eur|cny|jpy|[$€¥]/gi, '').replace(/[,\s]/g, '');
+  let sign = 1;
+
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+
+  const match = text.match(/^(-?\d*\.?\d+)(k|m|mn|mm|b|bn)?$/i);
+  if (!match) return NaN;
+
+  const multipliers: Record<string, number> = { k: 1e3, m: 1e6, mn: 1e6, mm: 1e6, b: 1e9, bn: 1e9 };
+  const multiplier = match[2] ? multipliers[match[2].toLowerCase()] : 1;
+  return sign * parseFloat(match[1]) * multiplier;
+}
+
+// Accept "SGD/MYR", "SGDMYR", "sgd-myr" or the bare base currency; a blank pair is USD/MYR
+export function normalizePair(value: string): CurrencyPair | null {
+  const text = value.toUpperCase().replace(/[^A-Z]/g, '');
+  if (!text) return DEFAULT_PAIR;
+
+  const base = text.length === 6 && text.endsWith('MYR') ? text.slice(0, 3) : text;
+  return CURRENCY_PAIRS.find(config => config.base === base)?.pair ?? null;
+}
+
+// Map the many ways a desk writes buy/sell onto long/short
+export function normalizeDirection(value: string): FXTrade['direction'] | null {
+  const text = value.trim().toLowerCase();
+  if (['long', 'l', 'buy', 'b', 'buy usd', 'bought', 'receive usd'].includes(text)) return 'long';
+  if (['short', 's', 'sell', 'sell usd', 'sold', 'pay usd'].includes(text)) return 'short';
+  return null;
+}
+
+const tradeRowSchema = z.object({
+  id: z.string().min(1, 'Trade ID is empty'),
+  pair: z.enum(CURRENCY_PAIRS.map(config => config.pair) as [CurrencyPair, ...CurrencyPair[]], {
+    errorMap: () => ({ message: `Currency pair must be one of ${CURRENCY_PAIRS.map(config => config.pair).join(', ')}` }),
+  }),
+  notional: z
+    .number({ invalid_type_error: 'Notional is not a number' })
+    .refine(value => Number.isFinite(value), 'Notional is not a number')
+    .refine(value => value !== 0, 'Notional must be non-zero'),
+  tradeDate: z.date({ required_error: 'Unrecognised trade date', invalid_type_error: 'Unrecognised trade date' }),
+  maturityDate: z.date({ required_error: 'Unrecognised maturity date', invalid_type_error: 'Unrecognised maturity date' }),
+  direction: z.enum(['long', 'short'], {
+    errorMap: () => ({ message: 'Direction must be long/short or buy/sell' }),
+  }),
+}).refine(row => row.maturityDate > row.tradeDate, {
+  message: 'Maturity date must be after trade date',
+  path: ['maturityDate'],
+});
+
+// Validate every data row against the mapping, collecting per-row errors. Trade IDs must be unique
+// within the file and against existingIds, since every screen looks trades up by ID
+export function importTrades(
+  parsed: ParsedCSV,
+  mapping: ColumnMapping,
+  existingIds: Iterable<string> = []
+): TradeImportResult {
+  const trades: FXTrade[] = [];
+  const errors: RowError[] = [];
+  const seenIds = new Set(existingIds);
+
+  const missing = TRADE_FIELDS.filter(({ field, required }) => required && mapping[field] === null);
+  if (missing.length > 0) {
+    return {
+      trades,
+      errors: missing.map(({ field, label }) => ({
+        row: 1,
+        field,
+        value: '',
+        message: `No column mapped for ${label}`,
+      })),
+      totalRows: parsed.rows.length,
+    };
+  }
+
+  parsed.rows.forEach((cells, index) => {
+    const row = parsed.lines[index];
+    const raw = (field: TradeField) => {
+      const column = mapping[field];
+      return column === null ? '' : cells[column] ?? '';
+    };
+
+    const amount = normalizeNotional(raw('notional'));
+    const direction = normalizeDirection(raw('direction'));
+
+    const result = tradeRowSchema.safeParse({
+      id: raw('id') || `IMP-${(index + 1).toString().padStart(3, '0')}`,
+      pair: normalizePair(raw('pair')) ?? raw('pair'),
+      notional: amount,
+      tradeDate: normalizeDate(raw('tradeDate')) ?? undefined,
+      maturityDate: normalizeDate(raw('maturityDate')) ?? undefined,
+      direction: direction ?? raw('direction'),
+    });
+
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const field = (issue.path[0] as TradeField | undefined) ?? 'row';
+        errors.push({
+          row,
+          field,
+          value: field === 'row' ? '' : raw(field),
+          message: issue.message,
+        });
+      }
+      return;
+    }
+
+    if (seenIds.has(result.data.id)) {
+      errors.push({ row, field: 'id', value: result.data.id, message: `Duplicate trade ID ${result.data.id}` });
+      return;
+    }
+    seenIds.add(result.data.id);
+
+    // A negative notional on a long ticket is a short, and vice versa
+    const { notional, ...trade } = result.data;
+    trades.push({
+      ...trade,
+      notional: Math.abs(notional),
+      direction: notional < 0
+        ? (trade.direction === 'long' ? 'short' : 'long')
+        : trade.direction,
+    } as FXTrade);
+  });
+
+  return { trades, errors, totalRows: parsed.rows.length };
+}
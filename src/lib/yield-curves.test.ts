@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyCurveShock,
+  DEFAULT_CURVES,
+  DEFAULT_MYR_CURVE,
+  DEFAULT_USD_CURVE,
+  interpolateZeroRate,
+  priceForward,
+  shockShift,
+  type ZeroCurve
+} from "./yield-curves";
+
+const curve: ZeroCurve = { currency: 'USD', name: 'Test', tenors: [1, 2], rates: [0.02, 0.04] };
+
+describe('interpolateZeroRate', () => {
+  it('interpolates linearly and extrapolates flat', () => {
+    expect(interpolateZeroRate(curve, 1.5)).toBeCloseTo(0.03, 12);
+    expect(interpolateZeroRate(curve, 0.5)).toBe(0.02);
+    expect(interpolateZeroRate(curve, 10)).toBe(0.04);
+  });
+});
+
+describe('priceForward', () => {
+  it('follows covered interest parity on continuously compounded zero rates', () => {
+    const usd = interpolateZeroRate(DEFAULT_USD_CURVE, 1);
+    const myr = interpolateZeroRate(DEFAULT_MYR_CURVE, 1);
+    expect(priceForward(4.5, 1, DEFAULT_CURVES)).toBeCloseTo(4.5 * Math.exp(myr - usd), 12);
+  });
+
+  it('is spot at zero tenor', () => {
+    expect(priceForward(4.5, 0, DEFAULT_CURVES)).toBe(4.5);
+  });
+});
+
+describe('curve shocks', () => {
+  it('pivots steepeners and flatteners around the midpoint of the short and long end', () => {
+    const steepener = { type: 'steepener' as const, target: 'MYR' as const, bps: 100 };
+    expect(shockShift(steepener, 0)).toBeCloseTo(-0.005, 12);
+    expect(shockShift(steepener, 5)).toBeCloseTo(0.005, 12);
+    expect(shockShift({ ...steepener, type: 'flattener' }, 5)).toBeCloseTo(-0.005, 12);
+    expect(shockShift({ ...steepener, type: 'parallel' }, 3)).toBeCloseTo(0.01, 12);
+  });
+
+  it('shocks only the targeted curve of the pair', () => {
+    const shocked = applyCurveShock(DEFAULT_CURVES, { type: 'parallel', target: 'MYR', bps: 100 });
+    expect(shocked.foreign).toBe(DEFAULT_CURVES.foreign);
+    shocked.domestic.rates.forEach((rate, i) => expect(rate).toBeCloseTo(DEFAULT_MYR_CURVE.rates[i] + 0.01, 12));
+
+    const untouched = applyCurveShock(DEFAULT_CURVES, { type: 'parallel', target: 'EUR', bps: 100 });
+    expect(untouched).toEqual(DEFAULT_CURVES);
+  });
+
+  it('raises forwards when MYR rates rise', () => {
+    const shocked = applyCurveShock(DEFAULT_CURVES, { type: 'parallel', target: 'MYR', bps: 100 });
+    expect(priceForward(4.5, 1, shocked) / priceForward(4.5, 1, DEFAULT_CURVES)).toBeCloseTo(Math.exp(0.01), 12);
+  });
+});
@@ -0,0 +1,142 @@
+// Zero Curves and Covered Interest Parity Forward Pricing for MYR-quoted pairs
+
+import type { CurrencyCode } from "./money";
+
+export type CurveCurrency = CurrencyCode;
+export type CurveShockType = 'parallel' | 'steepener' | 'flattener';
+export type CurveShockTarget = CurveCurrency | 'both';
+
+export interface ZeroCurve {
+  currency: CurveCurrency;
+  name: string;
+  tenors: number[]; // years, ascending
+  rates: number[]; // continuously compounded zero rates, decimal
+}
+
+// Curves of one pair: foreign is the base currency, domestic is MYR
+export interface CurveSet {
+  foreign: ZeroCurve;
+  domestic: ZeroCurve;
+}
+
+export interface CurveShock {
+  type: CurveShockType;
+  target: CurveShockTarget;
+  bps: number;
+}
+
+// Illustrative market levels; replace with the day's SOFR, SORA, €STR, SHIBOR, TONA and KLIBOR/MYOR fixings
+export const DEFAULT_USD_CURVE: ZeroCurve = {
+  currency: 'USD',
+  name: 'SOFR',
+  tenors: [1 / 365, 1 / 12, 0.25, 0.5, 1, 2, 5],
+  rates: [0.0433, 0.0432, 0.0430, 0.0420, 0.0405, 0.0385, 0.0380],
+};
+
+export const DEFAULT_MYR_CURVE: ZeroCurve = {
+  currency: 'MYR',
+  name: 'KLIBOR/MYOR',
+  tenors: [1 / 365, 1 / 12, 0.25, 0.5, 1, 2, 5],
+  rates: [0.0300, 0.0322, 0.0352, 0.0360, 0.0365, 0.0355, 0.0370],
+};
+
+export const DEFAULT_SGD_CURVE: ZeroCurve = {
+  currency: 'SGD',
+  name: 'SORA',
+  tenors: [1 / 365, 1 / 12, 0.25, 0.5, 1, 2, 5],
+  rates: [0.0305, 0.0310, 0.0305, 0.0295, 0.0285, 0.0270, 0.0265],
+};
+
+export const DEFAULT_EUR_CURVE: ZeroCurve = {
+  currency: 'EUR',
+  name: '€STR',
+  tenors: [1 / 365, 1 / 12, 0.25, 0.5, 1, 2, 5],
+  rates: [0.0290, 0.0285, 0.0275, 0.0260, 0.0240, 0.0225, 0.0235],
+};
+
+export const DEFAULT_CNY_CURVE: ZeroCurve = {
+  currency: 'CNY',
+  name: 'SHIBOR',
+  tenors: [1 / 365, 1 / 12, 0.25, 0.5, 1, 2, 5],
+  rates: [0.0160, 0.0175, 0.0180, 0.0182, 0.0185, 0.0180, 0.0195],
+};
+
+export const DEFAULT_JPY_CURVE: ZeroCurve = {
+  currency: 'JPY',
+  name: 'TONA',
+  tenors: [1 / 365, 1 / 12, 0.25, 0.5, 1, 2, 5],
+  rates: [0.0025, 0.0028, 0.0032, 0.0038, 0.0045, 0.0055, 0.0080],
+};
+
+// USD/MYR, the default pair
+export const DEFAULT_CURVES: CurveSet = {
+  foreign: DEFAULT_USD_CURVE,
+  domestic: DEFAULT_MYR_CURVE,
+};
+
+// Steepeners and flatteners pivot linearly from the short end to this tenor
+const LONG_END_TENOR = 5; // years
+
+// Linear interpolation on zero rates with flat extrapolation at both ends
+export function interpolateZeroRate(curve: ZeroCurve, tenorYears: number): number {
+  const { tenors, rates } = curve;
+  if (tenorYears <= tenors[0]) return rates[0];
+  if (tenorYears >= tenors[tenors.length - 1]) return rates[rates.length - 1];
+
+  const upper = tenors.findIndex(tenor => tenor >= tenorYears);
+  const lower = upper - 1;
+  const weight = (tenorYears - tenors[lower]) / (tenors[upper] - tenors[lower]);
+  return rates[lower] + weight * (rates[upper] - rates[lower]);
+}
+
+export function discountFactor(curve: ZeroCurve, tenorYears: number): number {
+  return Math.exp(-interpolateZeroRate(curve, tenorYears) * tenorYears);
+}
+
+// Covered interest parity: F = S × DF_foreign / DF_MYR (MYR per unit of the base currency)
+export function priceForward(spotRate: number, tenorYears: number, curves: CurveSet): number {
+  return spotRate * discountFactor(curves.foreign, tenorYears) / discountFactor(curves.domestic, tenorYears);
+}
+
+// Shift applied at a tenor for a given shock shape, in decimal
+export function shockShift(shock: CurveShock, tenorYears: number): number {
+  const size = shock.bps / 10000;
+  const weight = Math.min(1, tenorYears / LONG_END_TENOR) - 0.5; // -0.5 short end, +0.5 long end
+
+  switch (shock.type) {
+    case 'steepener':
+      return size * weight;
+    case 'flattener':
+      return -size * weight;
+    default:
+      return size;
+  }
+}
+
+export function shiftCurve(curve: ZeroCurve, shock: CurveShock): ZeroCurve {
+  return {
+    ...curve,
+    rates: curve.rates.map((rate, i) => rate + shockShift(shock, curve.tenors[i])),
+  };
+}
+
+// Apply a shock to the curve of the targeted currency, or both; a shock to a currency outside the pair is a no-op
+export function applyCurveShock(curves: CurveSet, shock: CurveShock): CurveSet {
+  const hits = (curve: ZeroCurve) => shock.target === 'both' || shock.target === curve.currency;
+  return {
+    foreign: hits(curves.foreign) ? shiftCurve(curves.foreign, shock) : curves.foreign,
+    domestic: hits(curves.domestic) ? shiftCurve(curves.domestic, shock) : curves.domestic,
+  };
+}
+
+// Spot-equivalent rate after a curve shock: scale spot by the shocked vs base horizon forward
+export function calculateCurveShockedFXRate(
+  spotRate: number,
+  horizonYears: number,
+  baseCurves: CurveSet,
+  shockedCurves: CurveSet
+): number {
+  return spotRate
+    * priceForward(1, horizonYears, shockedCurves)
+    / priceForward(1, horizonYears, baseCurves);
+}
@@ -0,0 +1,334 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, CheckCircle2, XCircle, Scale, Sigma, Percent } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine
+} from 'recharts';
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { MetricsCard } from "@/components/MetricsCard";
+import { usePortfolio } from "@/hooks/use-portfolio";
+import { buildForwardHedges, calculateScenarioForward } from "@/lib/fx-calculations";
+import {
+  runEffectivenessTests,
+  simulateSpotForwardSeries,
+  EFFECTIVENESS_LOWER_BOUND,
+  EFFECTIVENESS_UPPER_BOUND,
+  type EffectivenessSource
+} from "@/lib/hedge-effectiveness";
+import { PAIR_HISTORIES } from "@/data/usdmyr-history";
+import { getPairConfig } from "@/lib/currency-pairs";
+
+const PERIOD_OPTIONS = [
+  { days: 5, label: 'Weekly' },
+  { days: 21, label: 'Monthly' },
+  { days: 63, label: 'Quarterly' },
+];
+
+const PERIOD_COUNT = 24;
+
+const Effectiveness = () => {
+  const { pairTrades: trades, riskScenario, parameters, asOfDate } = usePortfolio();
+  const pair = getPairConfig(parameters.currencyPair);
+
+  const [selectedSource, setSource] = useState<EffectivenessSource>('historical');
+  const [periodDays, setPeriodDays] = useState(21);
+  const [hedgeRatio, setHedgeRatio] = useState(1);
+
+  // Pairs without a bundled history can only be tested on a simulated series
+  const history = PAIR_HISTORIES[pair.pair]?.spotForwardHistory;
+  const source: EffectivenessSource = history ? selectedSource : 'simulated';
+
+  const report = useMemo(() => {
+    if (trades.length === 0) return null;
+
+    const instruments = buildForwardHedges(trades, hedgeRatio, riskScenario, asOfDate);
+    const series = source === 'historical'
+      ? history
+      : simulateSpotForwardSeries({
+        spotRate: riskScenario.currentFXRate,
+        forwardPoints: calculateScenarioForward(riskScenario, 1, 0.25, false),
+        volatility: riskScenario.volatility,
+        days: periodDays * PERIOD_COUNT,
+        seed: parameters.seed,
+        startDate: asOfDate,
+      });
+
+    return runEffectivenessTests(trades, instruments, series, {
+      source,
+      periodDays,
+      periodCount: PERIOD_COUNT,
+    });
+  }, [trades, hedgeRatio, riskScenario, asOfDate, source, history, periodDays, parameters.seed]);
+
+  const ratioData = useMemo(() => report?.periods.map(period => ({
+    label: format(period.end, 'MMM yy'),
+    ratio: Math.max(0, Math.min(2, period.offsetRatio)) * 100, // clipped for display
+    actual: period.offsetRatio * 100,
+    effective: period.effective,
+  })) ?? [], [report]);
+
+  const scatterData = useMemo(() => report?.periods.map(period => ({
+    hedgedItem: period.hedgedItemChange / 1000000,
+    instrument: period.instrumentChange / 1000000,
+  })) ?? [], [report]);
+
+  const fittedLine = useMemo(() => {
+    if (!report || scatterData.length === 0) return [];
+    const xs = scatterData.map(point => point.hedgedItem);
+    const { slope, intercept } = report.regression;
+    return [Math.min(...xs), Math.max(...xs)].map(x => ({
+      hedgedItem: x,
+      instrument: slope * x + intercept / 1000000,
+    }));
+  }, [report, scatterData]);
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <header className="mb-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">
+              Hedge Effectiveness Report
+            </h1>
+            <p className="text-muted-foreground">
+              IFRS 9 / MFRS 9 dollar-offset and regression testing of {pair.pair} forward hedges
+            </p>
+          </div>
+          <div className="flex items-center space-x-4">
+            {report && (
+              <Badge variant={report.effective ? "secondary" : "destructive"} className="px-3 py-1">
+                {report.effective
+                  ? <CheckCircle2 className="w-4 h-4 mr-2 text-profit" />
+                  : <XCircle className="w-4 h-4 mr-2" />}
+                {report.effective ? 'Highly Effective' : 'Not Effective'}
+              </Badge>
+            )}
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Dashboard
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="lg:col-span-1">
+          <Card className="bg-gradient-card shadow-elegant border-border/50 p-6 space-y-6">
+            <h3 className="text-lg font-semibold text-foreground">Hedge Designation</h3>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-foreground">
+                Designated Hedge Ratio: {(hedgeRatio * 100).toFixed(0)}%
+              </Label>
+              <Slider
+                value={[hedgeRatio]}
+                onValueChange={(value) => setHedgeRatio(value[0])}
+                max={1.5}
+                min={0.05}
+                step={0.05}
+                className="w-full"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-foreground">Test Data</Label>
+              <Select value={source} onValueChange={(value) => setSource(value as EffectivenessSource)}>
+                <SelectTrigger className="bg-input border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="historical" disabled={!history}>Historical (bundled {pair.pair})</SelectItem>
+                  <SelectItem value="simulated">Simulated (current volatility)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-foreground">Test Period</Label>
+              <Select value={periodDays.toString()} onValueChange={(value) => setPeriodDays(parseInt(value))}>
+                <SelectTrigger className="bg-input border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PERIOD_OPTIONS.map(option => (
+                    <SelectItem key={option.days} value={option.days.toString()}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="pt-4 border-t border-border text-xs space-y-1 text-muted-foreground">
+              <p>• Hedged items: {trades.length} {pair.pair} trades in the current book</p>
+              <p>• Instruments: offsetting forwards at each trade's maturity</p>
+              <p>• Effective range: {EFFECTIVENESS_LOWER_BOUND * 100}%–{EFFECTIVENESS_UPPER_BOUND * 100}% offset, R² ≥ 80%</p>
+            </div>
+          </Card>
+        </div>
+
+        {report && (
+          <div className="lg:col-span-3 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <MetricsCard
+                title="Cumulative Dollar Offset"
+                value={`${(report.cumulative.offsetRatio * 100).toFixed(1)}%`}
+                subtitle={report.cumulative.effective ? 'Pass' : 'Fail'}
+                icon={<Percent className="w-5 h-5" />}
+                trend={report.cumulative.effective ? 'positive' : 'negative'}
+              />
+              <MetricsCard
+                title="Regression Slope"
+                value={report.regression.slope.toFixed(3)}
+                subtitle={report.regression.effective ? 'Pass' : 'Fail'}
+                icon={<Scale className="w-5 h-5" />}
+                trend={report.regression.effective ? 'positive' : 'negative'}
+              />
+              <MetricsCard
+                title="Regression R²"
+                value={`${(report.regression.rSquared * 100).toFixed(1)}%`}
+                subtitle={`${report.periods.length} periods`}
+                icon={<Sigma className="w-5 h-5" />}
+                trend={report.regression.rSquared >= 0.8 ? 'positive' : 'negative'}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
+                <h3 className="text-lg font-semibold text-foreground mb-4">Period Dollar-Offset Ratio</h3>
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart data={ratioData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="label" stroke="hsl(var(--muted-foreground))" tick={{ fontSize: 11 }} />
+                    <YAxis
+                      stroke="hsl(var(--muted-foreground))"
+                      tick={{ fontSize: 12 }}
+                      domain={[0, 200]}
+                      tickFormatter={(value) => `${value}%`}
+                    />
+                    <Tooltip
+                      formatter={(_value, _name, item) => [`${item.payload.actual.toFixed(1)}%`, 'Offset']}
+                      contentStyle={{
+                        backgroundColor: 'hsl(var(--card))',
+                        border: '1px solid hsl(var(--border))',
+                        borderRadius: '8px'
+                      }}
+                    />
+                    <ReferenceLine y={EFFECTIVENESS_LOWER_BOUND * 100} stroke="hsl(var(--warning))" strokeDasharray="4 4" />
+                    <ReferenceLine y={EFFECTIVENESS_UPPER_BOUND * 100} stroke="hsl(var(--warning))" strokeDasharray="4 4" />
+                    <Bar dataKey="ratio">
+                      {ratioData.map((entry, index) => (
+                        <Cell key={index} fill={entry.effective ? 'hsl(var(--profit))' : 'hsl(var(--loss))'} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </Card>
+
+              <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
+                <h3 className="text-lg font-semibold text-foreground mb-4">Regression: Instrument vs Hedged Item</h3>
+                <ResponsiveContainer width="100%" height={300}>
+                  <ScatterChart>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis
+                      type="number"
+                      dataKey="hedgedItem"
+                      name="Hedged Item"
+                      stroke="hsl(var(--muted-foreground))"
+                      tick={{ fontSize: 12 }}
+                      tickFormatter={(value) => `${value.toFixed(1)}M`}
+                    />
+                    <YAxis
+                      type="number"
+                      dataKey="instrument"
+                      name="Instrument"
+                      stroke="hsl(var(--muted-foreground))"
+                      tick={{ fontSize: 12 }}
+                      tickFormatter={(value) => `${value.toFixed(1)}M`}
+                    />
+                    <Tooltip
+                      formatter={(value: number) => `${value.toFixed(2)}M`}
+                      contentStyle={{
+                        backgroundColor: 'hsl(var(--card))',
+                        border: '1px solid hsl(var(--border))',
+                        borderRadius: '8px'
+                      }}
+                    />
+                    <Scatter data={scatterData} fill="hsl(var(--primary))" />
+                    <Scatter data={fittedLine} line={{ stroke: 'hsl(var(--warning))', strokeWidth: 2 }} shape={() => null} legendType="none" />
+                  </ScatterChart>
+                </ResponsiveContainer>
+              </Card>
+            </div>
+
+            <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
+              <h3 className="text-lg font-semibold text-foreground mb-4">Test Periods</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead className="text-right">Hedged Item Δ (MYR)</TableHead>
+                    <TableHead className="text-right">Instrument Δ (MYR)</TableHead>
+                    <TableHead className="text-right">Offset</TableHead>
+                    <TableHead className="text-right">Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.periods.map(period => (
+                    <TableRow key={period.end.toISOString()}>
+                      <TableCell>
+                        {format(period.start, 'dd MMM yyyy')} – {format(period.end, 'dd MMM yyyy')}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {(period.hedgedItemChange / 1000000).toFixed(2)}M
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {(period.instrumentChange / 1000000).toFixed(2)}M
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{(period.offsetRatio * 100).toFixed(1)}%</TableCell>
+                      <TableCell className={`text-right font-medium ${period.effective ? 'text-profit' : 'text-loss'}`}>
+                        {period.effective ? 'Pass' : 'Fail'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Effectiveness;
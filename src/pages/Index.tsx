@@ -1,4 +1,5 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Link } from 'react-router-dom';
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -6,93 +7,247 @@ import {
   AlertTriangle, 
   Calculator,
   BarChart3,
-  DollarSign
+  DollarSign,
+  Upload,
+  Table2,
+  ShieldCheck,
+  Layers,
+  Activity,
+  Bookmark,
+  Zap,
+  X
 } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { MetricsCard } from "@/components/MetricsCard";
-import { RiskChart, DistributionChart } from "@/components/RiskChart";
+import { RiskChart, DistributionChart, ExposureLadderChart, VaRContributionChart } from "@/components/RiskChart";
 import { ParametersPanel } from "@/components/ParametersPanel";
+import { TradeImportDialog } from "@/components/TradeImportDialog";
+import { ReverseStressPanel, type BreachCurve } from "@/components/ReverseStressPanel";
+import { PairRiskTable } from "@/components/PairRiskTable";
+import { CorrelationMatrixPanel } from "@/components/CorrelationMatrixPanel";
 import { useToast } from "@/hooks/use-toast";
+import { usePortfolio, type TradeSource } from "@/hooks/use-portfolio";
+import { useReportingCurrency } from "@/hooks/use-reporting-currency";
+import { useSimulationWorker } from "@/hooks/use-simulation-worker";
 import {
-  generateFXTrades,
-  calculateRiskMetrics,
+  calculateRiskByPair,
+  calculateExposureLadder,
+  buildForwardHedges,
+  calculateOptionPremium,
+  buildOptionHedges,
+  formatAsOfDate,
   generatePnLSensitivity,
-  calculateShockedFXRate,
+  hedgeOverlayKey,
   type FXTrade,
-  type RiskScenario,
   type RiskMetrics
 } from "@/lib/fx-calculations";
+import { parseCSV, type ParsedCSV } from "@/lib/trade-import";
+import { formatMoney, FUNCTIONAL_CURRENCY, money } from "@/lib/money";
+import { getPairConfig } from "@/lib/currency-pairs";
+import { PAIR_HISTORIES } from "@/data/usdmyr-history";
+import { HEDGE_RATIO_METHODS } from "@/lib/hedge-ratio";
+import { buildBreachFrontier, findSensitivityBreaches } from "@/lib/reverse-stress";
+import { calculatePortfolioVaR } from "@/lib/portfolio-var";
+import { buildSimulationJob } from "@/lib/simulation-engine";
+import {
+  buildPnLHistogram,
+  type MonteCarloResult
+} from "@/lib/monte-carlo";
+
+const tradeSourceLabels: Record<TradeSource, string> = {
+  generated: 'Generated',
+  imported: 'Imported',
+  edited: 'Edited',
+};
+
+// Strikes offered for the option-hedge profile, as a fraction out of the money from the forward
+const OPTION_STRIKES = [
+  { value: 'none', label: 'No Options', moneyness: null },
+  { value: 'atmf', label: 'ATM Fwd', moneyness: 0 },
+  { value: 'otm2', label: '2% OTM', moneyness: 0.02 },
+  { value: 'otm5', label: '5% OTM', moneyness: 0.05 },
+];
 
 const Index = () => {
   const { toast } = useToast();
   
-  const [parameters, setParameters] = useState({
-    currentFXRate: 4.65,
-    interestRateShock: 200, // basis points
-    volatility: 0.15, // 15% annualized
-    numberOfTrades: 100,
-    timeHorizon: 30, // days
-  });
+  const {
+    parameters,
+    asOfDate,
+    trades,
+    pairTrades,
+    tradeSource,
+    riskScenario,
+    pairScenarios,
+    correlations,
+    activeStress,
+    applyStress,
+    setParameter,
+    resetParameters: resetPortfolioParameters,
+    setTrades,
+    restoreGeneratedTrades,
+  } = usePortfolio();
 
-  const [trades, setTrades] = useState<FXTrade[]>([]);
   const [riskMetrics, setRiskMetrics] = useState<RiskMetrics | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const [simulation, setSimulation] = useState<MonteCarloResult | null>(null);
+  const [importFile, setImportFile] = useState<{ name: string; parsed: ParsedCSV } | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [hedgeOverlays, setHedgeOverlays] = useState<string[]>([]);
+  const [optionStrike, setOptionStrike] = useState('none');
+  const [lossThreshold, setLossThreshold] = useState(5); // MYR millions
+  const [breachCurve, setBreachCurve] = useState<BreachCurve>('unhedged');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const pair = getPairConfig(parameters.currencyPair);
+  const { currency, toReporting, toReportingCurve, format } = useReportingCurrency();
+  const {
+    run: runSimulationJob,
+    cancel: cancelSimulation,
+    progress: simulationProgress,
+    isRunning
+  } = useSimulationWorker();
 
-  // Generate trades when parameters change
-  useEffect(() => {
-    setTrades(generateFXTrades(parameters.numberOfTrades));
-  }, [parameters.numberOfTrades]);
-
-  // Calculate risk scenario
-  const riskScenario = useMemo((): RiskScenario => {
-    const shockedRate = calculateShockedFXRate(
-      parameters.currentFXRate,
-      parameters.interestRateShock,
-      parameters.timeHorizon / 365
+  // Generate P&L sensitivity data for charts, hedged at the optimal ratio plus any overlays
+  const overlayRatios = useMemo(
+    () => hedgeOverlays.map(Number).sort((a, b) => a - b),
+    [hedgeOverlays]
+  );
+
+  // Bought puts/calls at the optimal ratio, for comparison with the forward hedge
+  const selectedStrike = OPTION_STRIKES.find(strike => strike.value === optionStrike);
+  const optionHedges = useMemo(() => {
+    if (selectedStrike?.moneyness == null) return undefined;
+    return buildOptionHedges(
+      pairTrades,
+      riskMetrics?.optimalHedgeRatio ?? 0,
+      riskScenario,
+      asOfDate,
+      selectedStrike.moneyness
     );
+  }, [pairTrades, riskMetrics, riskScenario, asOfDate, selectedStrike]);
+
+  const pnlSensitivityData = useMemo(() => {
+    if (pairTrades.length === 0) return [];
+    return generatePnLSensitivity(pairTrades, parameters.currentFXRate, 0.5, {
+      hedgeRatio: riskMetrics?.optimalHedgeRatio ?? 0,
+      overlayRatios,
+      optionHedges,
+      scenario: riskScenario,
+      asOfDate,
+    });
+  }, [pairTrades, parameters.currentFXRate, riskMetrics, overlayRatios, optionHedges, riskScenario, asOfDate]);
+
+  // Each point's P&L is realised at that point's rate, so it converts there
+  const reportedSensitivityData = useMemo(
+    () => toReportingCurve(pnlSensitivityData),
+    [pnlSensitivityData, toReportingCurve]
+  );
+
+  const sensitivityOverlays = useMemo(() => {
+    const overlays = overlayRatios.map(ratio => ({
+      key: hedgeOverlayKey(ratio),
+      label: `${(ratio * 100).toFixed(0)}% Hedged`,
+      dashed: true,
+    }));
+    if (optionHedges) {
+      overlays.push({ key: 'optionHedgedPnl', label: `Option-Hedged (${selectedStrike.label})`, dashed: false });
+    }
+    return overlays;
+  }, [overlayRatios, optionHedges, selectedStrike]);
+
+  // Reverse stress: where the charted curve crosses the loss threshold, and how rate shocks move that level
+  const breachHedgeRatio = breachCurve === 'hedged' ? riskMetrics?.optimalHedgeRatio ?? 0 : 0;
+  const sensitivityBreaches = useMemo(() => {
+    if (pairTrades.length === 0) return [];
+    const hedges = buildForwardHedges(pairTrades, breachHedgeRatio, riskScenario, asOfDate);
+    return findSensitivityBreaches(pairTrades, parameters.currentFXRate, lossThreshold * 1000000, hedges);
+  }, [pairTrades, breachHedgeRatio, riskScenario, asOfDate, parameters.currentFXRate, lossThreshold]);
+
+  const breachFrontier = useMemo(() => {
+    if (pairTrades.length === 0) return [];
+    return buildBreachFrontier(pairTrades, riskScenario, lossThreshold * 1000000, {
+      hedgeRatio: breachHedgeRatio,
+      asOfDate,
+    });
+  }, [pairTrades, riskScenario, lossThreshold, breachHedgeRatio, asOfDate]);
+
+  // Exposure by maturity bucket, with forward hedges at the optimal ratio
+  const exposureLadder = useMemo(() => {
+    const hedges = buildForwardHedges(pairTrades, riskMetrics?.optimalHedgeRatio ?? 0, riskScenario, asOfDate);
+    return calculateExposureLadder(pairTrades, hedges, asOfDate);
+  }, [pairTrades, riskMetrics, riskScenario, asOfDate]);
+
+  // Every pair in the book under its own scenario, for the by-pair breakdown
+  const pairRisk = useMemo(() => calculateRiskByPair(trades, pairScenarios, {
+    confidenceLevel: parameters.confidenceLevel,
+    timeHorizon: parameters.timeHorizon,
+    hedgeRatioMethod: parameters.hedgeRatioMethod,
+    riskAversion: parameters.riskAversion,
+    exposureBasis: parameters.exposureBasis,
+    asOfDate,
+    histories: PAIR_HISTORIES,
+  }), [trades, pairScenarios, parameters, asOfDate]);
 
+  const portfolioVaR = useMemo(() => calculatePortfolioVaR(pairRisk, correlations), [pairRisk, correlations]);
+
+  // Risk measures convert at spot
+  const contributionData = useMemo(() => pairRisk.map((row, i) => ({
+    pair: row.pair,
+    standaloneVaR: toReporting(portfolioVaR.contributions[i].standaloneVaR).amount / 1000000,
+    componentVaR: toReporting(portfolioVaR.contributions[i].componentVaR).amount / 1000000,
+  })), [pairRisk, portfolioVaR, toReporting]);
+
+  // Build loss distribution histogram from Monte Carlo results
+  // Horizon P&L is converted at today's spot
+  const distributionScale = toReporting(1000000).amount / 1000000;
+  const riskDistributionData = useMemo(() => {
+    if (!simulation) return [];
+    return buildPnLHistogram(simulation).map(bin => ({ ...bin, pnl: bin.pnl * distributionScale }));
+  }, [simulation, distributionScale]);
+
+  const distributionMarkers = useMemo(() => {
+    if (!simulation) return [];
+    return simulation.percentiles
+      .filter(marker => [5, 50, 95].includes(marker.percentile))
+      .map(marker => ({ label: marker.label, value: marker.value / 1000000 * distributionScale }));
+  }, [simulation, distributionScale]);
+
+  const distributionTail = useMemo(() => {
+    if (!simulation) return undefined;
     return {
-      currentFXRate: parameters.currentFXRate,
-      shockedFXRate: shockedRate,
-      interestRateShock: parameters.interestRateShock,
-      volatility: parameters.volatility,
+      valueAtRisk: -simulation.tailRisk.valueAtRisk / 1000000 * distributionScale,
+      expectedShortfall: -simulation.tailRisk.expectedShortfall / 1000000 * distributionScale,
     };
-  }, [parameters]);
-
-  // Generate P&L sensitivity data for charts
-  const pnlSensitivityData = useMemo(() => {
-    if (trades.length === 0) return [];
-    return generatePnLSensitivity(trades, parameters.currentFXRate, 0.5);
-  }, [trades, parameters.currentFXRate]);
-
-  // Generate risk distribution data
-  const riskDistributionData = useMemo(() => [
-    { scenario: 'Best Case', probability: 0.05, loss: 0 },
-    { scenario: 'Favorable', probability: 0.25, loss: -2 },
-    { scenario: 'Expected', probability: 0.40, loss: -5 },
-    { scenario: 'Adverse', probability: 0.25, loss: -10 },
-    { scenario: 'Worst Case', probability: 0.05, loss: -20 },
-  ], []);
-
-  const handleParameterChange = (key: string, value: number) => {
-    setParameters(prev => ({ ...prev, [key]: value }));
-  };
+  }, [simulation, distributionScale]);
 
   const runSimulation = async () => {
-    setIsLoading(true);
-    
     try {
-      // Simulate processing delay for realism
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      const metrics = calculateRiskMetrics(trades, riskScenario);
-      setRiskMetrics(metrics);
-      
+      const output = await runSimulationJob(buildSimulationJob(
+        pairTrades,
+        riskScenario,
+        parameters,
+        asOfDate,
+        PAIR_HISTORIES[parameters.currencyPair]
+      ));
+      // Cancelled by a newer run, a parameter change or leaving the page
+      if (!output) return;
+
+      setSimulation(output.simulation);
+      setRiskMetrics(output.metrics);
+
       toast({
         title: "Simulation Complete",
-        description: `Analyzed ${trades.length} FX trades with ${parameters.interestRateShock}bps shock scenario`,
+        description: `Analyzed ${pairTrades.length} ${parameters.currencyPair} trades with ${parameters.interestRateShock}bps shock scenario across ${output.simulation.numberOfPaths.toLocaleString()} Monte Carlo paths`,
       });
     } catch (error) {
       toast({
@@ -100,49 +255,167 @@ const Index = () => {
         description: "Failed to calculate risk metrics. Please try again.",
         variant: "destructive",
       });
-    } finally {
-      setIsLoading(false);
     }
   };
 
-  const resetParameters = () => {
-    setParameters({
-      currentFXRate: 4.65,
-      interestRateShock: 200,
-      volatility: 0.15,
-      numberOfTrades: 100,
-      timeHorizon: 30,
+  const handleFile = async (file: File) => {
+    const parsed = parseCSV(await file.text());
+    if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+      toast({
+        title: "Import Error",
+        description: `${file.name} has no header row or no trade rows.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setImportFile({ name: file.name, parsed });
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const file = event.dataTransfer.files[0];
+    if (file) handleFile(file);
+  };
+
+  const handleImport = (imported: FXTrade[]) => {
+    setTrades(imported, 'imported');
+    setImportFile(null);
+    toast({
+      title: "Trades Imported",
+      description: `Loaded ${imported.length} trades from ${importFile?.name}`,
     });
+  };
+
+  const resetParameters = () => {
+    resetPortfolioParameters();
     setRiskMetrics(null);
+    setSimulation(null);
   };
 
-  // Auto-run simulation on mount
+  // A run still in flight was priced off the old inputs, so stop it as soon as they change
+  useEffect(() => {
+    cancelSimulation();
+  }, [parameters, riskScenario, cancelSimulation]);
+
+  // The latest run, so the auto-run below fires on book and stress changes only, not on every parameter edit
+  const runSimulationRef = useRef(runSimulation);
+  useEffect(() => {
+    runSimulationRef.current = runSimulation;
+  });
+
+  // Auto-run simulation whenever the trade book, the active pair or the applied stress changes
   useEffect(() => {
-    if (trades.length > 0) {
-      runSimulation();
+    if (pairTrades.length > 0) {
+      runSimulationRef.current();
+    } else {
+      setRiskMetrics(null);
+      setSimulation(null);
     }
-  }, [trades.length]);
+  }, [pairTrades, activeStress]);
 
   const getRiskLevel = (pnl: number) => {
     if (pnl > 0) return 'positive';
-    if (pnl < -10000000) return 'negative'; // > $10M loss
+    if (pnl < -10000000) return 'negative'; // > RM10M loss
     return 'neutral';
   };
 
   return (
-    <div className="min-h-screen bg-background p-6">
+    <div
+      className="min-h-screen bg-background p-6 relative"
+      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={(e) => { if (e.currentTarget === e.target) setIsDragging(false); }}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center bg-background/80 border-4 border-dashed border-primary pointer-events-none">
+          <div className="text-center">
+            <Upload className="w-10 h-10 mx-auto mb-3 text-primary" />
+            <p className="text-lg font-semibold text-foreground">Drop a CSV trade blotter to import</p>
+          </div>
+        </div>
+      )}
+
       {/* Header */}
       <header className="mb-8">
-        <div className="flex items-center justify-between">
+        {activeStress && (
+          <div className="flex items-center justify-between mb-4 px-4 py-2 rounded-lg border border-warning/50 bg-warning/10">
+            <span className="text-sm text-foreground">
+              <Zap className="w-4 h-4 mr-2 inline text-warning" />
+              Stress applied to {activeStress.pairs.join(', ')}: <span className="font-medium">{activeStress.name}</span> — {activeStress.description}
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => applyStress(null)}>
+              <X className="w-4 h-4 mr-1" />
+              Clear
+            </Button>
+          </div>
+        )}
+        <div className="flex flex-wrap items-center justify-between gap-4">
           <div>
             <h1 className="text-3xl font-bold text-foreground mb-2">
               FX Risk Simulator
             </h1>
             <p className="text-muted-foreground">
-              Treasury risk management for USD/MYR unhedged positions
+              Treasury risk management for unhedged MYR currency positions
             </p>
           </div>
-          <div className="flex items-center space-x-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+            {tradeSource !== 'generated' && (
+              <Button variant="outline" size="sm" onClick={restoreGeneratedTrades}>
+                Use Generated Trades
+              </Button>
+            )}
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/trades">
+                <Table2 className="w-4 h-4 mr-2" />
+                Trade Blotter
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/effectiveness">
+                <ShieldCheck className="w-4 h-4 mr-2" />
+                Effectiveness
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/strategies">
+                <Layers className="w-4 h-4 mr-2" />
+                Strategies
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/sensitivities">
+                <Activity className="w-4 h-4 mr-2" />
+                Greeks
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/scenarios">
+                <Bookmark className="w-4 h-4 mr-2" />
+                Scenarios
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/stress">
+                <Zap className="w-4 h-4 mr-2" />
+                Stress Tests
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import Trades
+            </Button>
             <Badge variant="outline" className="px-3 py-1">
               <BarChart3 className="w-4 h-4 mr-2" />
               Live Simulation
@@ -163,7 +436,7 @@ const Index = () => {
         <div className="lg:col-span-1">
           <ParametersPanel
             parameters={parameters}
-            onParameterChange={handleParameterChange}
+            onParameterChange={setParameter}
             onRunSimulation={runSimulation}
             onReset={resetParameters}
           />
@@ -173,24 +446,26 @@ const Index = () => {
         <div className="lg:col-span-3 space-y-6">
           {/* Key Metrics */}
           {riskMetrics && (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
               <MetricsCard
-                title="Total Exposure"
-                value={riskMetrics.totalExposureUSD}
-                subtitle="USD Notional"
+                title={riskMetrics.exposureBasis === 'net' ? 'Net Exposure' : 'Gross Exposure'}
+                value={money(riskMetrics.totalExposure, pair.base)}
+                subtitle={riskMetrics.exposureBasis === 'net'
+                  ? `Gross ${formatMoney(money(riskMetrics.exposure.grossNotional, pair.base), 1)}`
+                  : `${pair.base} Notional`}
                 icon={<DollarSign className="w-5 h-5" />}
                 trend="neutral"
               />
               <MetricsCard
                 title="Unhedged P&L"
-                value={riskMetrics.unhedgedPnL}
+                value={toReporting(riskMetrics.unhedgedPnL, riskScenario.shockedFXRate)}
                 subtitle="Shock Impact"
                 icon={riskMetrics.unhedgedPnL >= 0 ? <TrendingUp className="w-5 h-5" /> : <TrendingDown className="w-5 h-5" />}
                 trend={getRiskLevel(riskMetrics.unhedgedPnL)}
               />
               <MetricsCard
                 title="Hedge Cost"
-                value={Math.abs(riskMetrics.hedgeCost)}
+                value={toReporting(Math.abs(riskMetrics.hedgeCost))}
                 subtitle="Forward Premium"
                 icon={<Calculator className="w-5 h-5" />}
                 trend="neutral"
@@ -198,25 +473,107 @@ const Index = () => {
               <MetricsCard
                 title="Optimal Hedge %"
                 value={`${(riskMetrics.optimalHedgeRatio * 100).toFixed(1)}%`}
-                subtitle="Risk-Adjusted"
+                subtitle={HEDGE_RATIO_METHODS.find(m => m.method === riskMetrics.hedgeRatioEstimate.method)?.label}
                 icon={<Shield className="w-5 h-5" />}
                 trend="positive"
               />
+              <MetricsCard
+                title="Expected Shortfall"
+                value={toReporting(riskMetrics.expectedShortfall)}
+                subtitle={`${(riskMetrics.varConfidenceLevel * 100).toFixed(1)}% ${riskMetrics.varTimeHorizon}d`}
+                icon={<AlertTriangle className="w-5 h-5" />}
+                trend="negative"
+              />
             </div>
           )}
 
+          {/* Risk by Pair */}
+          {pairRisk.length > 0 && (
+            <PairRiskTable
+              rows={pairRisk}
+              portfolio={portfolioVaR}
+              activePair={parameters.currencyPair}
+              onSelectPair={(next) => setParameter('currencyPair', next)}
+            />
+          )}
+
+          {/* Portfolio VaR */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <VaRContributionChart
+              data={contributionData}
+              currency={currency}
+              title={`VaR Contribution by Pair (diversified ${format(portfolioVaR.valueAtRisk)})`}
+            />
+            <CorrelationMatrixPanel />
+          </div>
+
           {/* P&L Sensitivity Chart */}
           <RiskChart
-            data={pnlSensitivityData}
+            data={reportedSensitivityData}
+            currency={currency}
+            overlays={sensitivityOverlays}
+            hedgedLabel={`Hedged P&L (${((riskMetrics?.optimalHedgeRatio ?? 0) * 100).toFixed(0)}%)`}
             title="P&L Sensitivity Analysis"
             height={400}
+            lossThreshold={currency === FUNCTIONAL_CURRENCY ? lossThreshold : undefined}
+            breaches={sensitivityBreaches.map(point => ({
+              fxRate: point.fxRate,
+              label: `${breachCurve === 'hedged' ? 'Hedged' : 'Unhedged'} breach ${point.fxRate.toFixed(3)}`,
+            }))}
+            actions={
+              <div className="flex flex-wrap items-center gap-2">
+                <ToggleGroup
+                  type="multiple"
+                  size="sm"
+                  value={hedgeOverlays}
+                  onValueChange={setHedgeOverlays}
+                >
+                  {[0, 0.25, 0.5, 0.75, 1].map(ratio => (
+                    <ToggleGroupItem key={ratio} value={ratio.toString()} className="text-xs">
+                      {(ratio * 100).toFixed(0)}%
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+                <Select value={optionStrike} onValueChange={setOptionStrike}>
+                  <SelectTrigger className="w-32 h-9 text-xs bg-input border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OPTION_STRIKES.map(strike => (
+                      <SelectItem key={strike.value} value={strike.value}>{strike.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            }
+          />
+
+          {/* Reverse Stress */}
+          <ReverseStressPanel
+            pair={pair}
+            lossThreshold={lossThreshold}
+            onLossThresholdChange={setLossThreshold}
+            curve={breachCurve}
+            onCurveChange={setBreachCurve}
+            breaches={sensitivityBreaches}
+            frontier={breachFrontier}
+          />
+
+          {/* Maturity Ladder */}
+          <ExposureLadderChart
+            data={exposureLadder}
+            currency={pair.base}
+            title={`Exposure by Maturity (hedged at ${((riskMetrics?.optimalHedgeRatio ?? 0) * 100).toFixed(0)}%)`}
           />
 
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Risk Distribution */}
             <DistributionChart
               data={riskDistributionData}
-              title="Loss Distribution"
+              markers={distributionMarkers}
+              tail={distributionTail}
+              currency={currency}
+              title={`Loss Distribution (${parameters.timeHorizon}-Day Monte Carlo)`}
               height={300}
             />
 
@@ -226,30 +583,134 @@ const Index = () => {
               <div className="space-y-4">
                 <div className="flex justify-between items-center py-2 border-b border-border/30">
                   <span className="text-sm text-muted-foreground">Current FX Rate:</span>
-                  <span className="font-medium">{riskScenario.currentFXRate.toFixed(4)} MYR/USD</span>
+                  <span className="font-medium">{riskScenario.currentFXRate.toFixed(pair.decimals)} {pair.pair}</span>
                 </div>
                 <div className="flex justify-between items-center py-2 border-b border-border/30">
                   <span className="text-sm text-muted-foreground">Shocked FX Rate:</span>
-                  <span className="font-medium">{riskScenario.shockedFXRate.toFixed(4)} MYR/USD</span>
+                  <span className="font-medium">{riskScenario.shockedFXRate.toFixed(pair.decimals)} {pair.pair}</span>
                 </div>
                 <div className="flex justify-between items-center py-2 border-b border-border/30">
                   <span className="text-sm text-muted-foreground">Rate Shock:</span>
-                  <span className="font-medium text-warning">{parameters.interestRateShock} bps</span>
+                  <span className="font-medium text-warning">
+                    {parameters.interestRateShock} bps {parameters.curveShockTarget === 'both' ? `${pair.base}+MYR` : parameters.curveShockTarget} {parameters.curveShockType}
+                  </span>
                 </div>
                 {riskMetrics && (
                   <>
                     <div className="flex justify-between items-center py-2 border-b border-border/30">
-                      <span className="text-sm text-muted-foreground">Value at Risk (95%):</span>
+                      <span className="text-sm text-muted-foreground">Gross / Net / Absolute:</span>
+                      <span className="font-medium">
+                        {formatMoney(money(riskMetrics.exposure.grossNotional, pair.base))}
+                        {' / '}{formatMoney(money(riskMetrics.exposure.netNotional, pair.base))}
+                        {' / '}{formatMoney(money(riskMetrics.exposure.absoluteNotional, pair.base))}
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center py-2 border-b border-border/30">
+                      <span className="text-sm text-muted-foreground">
+                        Value at Risk ({(riskMetrics.varConfidenceLevel * 100).toFixed(1)}%, {riskMetrics.varTimeHorizon}d):
+                      </span>
+                      <span className="font-medium text-loss">
+                        {format(riskMetrics.valueAtRisk)}
+                      </span>
+                    </div>
+                    <div className="py-2 border-b border-border/30">
+                      <span className="text-sm text-muted-foreground">VaR Term Structure:</span>
+                      <div className="grid grid-cols-4 gap-2 mt-2">
+                        {riskMetrics.varTermStructure.map(point => (
+                          <div
+                            key={point.label}
+                            className={`text-center rounded-md py-1 ${point.timeHorizon === riskMetrics.varTimeHorizon ? 'bg-secondary' : ''}`}
+                          >
+                            <p className="text-xs text-muted-foreground">{point.label}</p>
+                            <p className="text-sm font-medium text-loss">
+                              {format(point.valueAtRisk)}
+                            </p>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                    {riskMetrics.hedgeRatioEstimate.minimumVariance && (
+                      <div className="flex justify-between items-center py-2 border-b border-border/30">
+                        <span className="text-sm text-muted-foreground">
+                          Hedge Ratio {(riskMetrics.hedgeRatioEstimate.minimumVariance.confidenceLevel * 100).toFixed(0)}% CI:
+                        </span>
+                        <span
+                          className="font-medium"
+                          title={`ρ = ${riskMetrics.hedgeRatioEstimate.minimumVariance.correlation.toFixed(3)}, σ spot ${(riskMetrics.hedgeRatioEstimate.minimumVariance.spotVolatility * 100).toFixed(1)}%, σ fwd ${(riskMetrics.hedgeRatioEstimate.minimumVariance.forwardVolatility * 100).toFixed(1)}%, n = ${riskMetrics.hedgeRatioEstimate.minimumVariance.observations}`}
+                        >
+                          {((riskMetrics.hedgeRatioEstimate.lower ?? 0) * 100).toFixed(1)}% – {((riskMetrics.hedgeRatioEstimate.upper ?? 0) * 100).toFixed(1)}%
+                        </span>
+                      </div>
+                    )}
+                    <div className="flex justify-between items-center py-2 border-b border-border/30">
+                      <span className="text-sm text-muted-foreground">Expected Shortfall (Parametric):</span>
                       <span className="font-medium text-loss">
-                        ${(riskMetrics.valueAtRisk / 1000000).toFixed(2)}M
+                        {format(riskMetrics.expectedShortfall)}
                       </span>
                     </div>
-                    <div className="flex justify-between items-center py-2">
+                    {riskMetrics.simulatedTailRisk && (
+                      <div className="flex justify-between items-center py-2 border-b border-border/30">
+                        <span className="text-sm text-muted-foreground">Expected Shortfall (Monte Carlo):</span>
+                        <span className="font-medium text-loss">
+                          {format(riskMetrics.simulatedTailRisk.expectedShortfall)}
+                        </span>
+                      </div>
+                    )}
+                    {riskMetrics.historicalVaR && (
+                      <>
+                        <div className="flex justify-between items-center py-2 border-b border-border/30">
+                          <span className="text-sm text-muted-foreground">
+                            Historical VaR ({riskMetrics.historicalVaR.startDate.getFullYear()}–{riskMetrics.historicalVaR.endDate.getFullYear()}):
+                          </span>
+                          <span className="font-medium text-loss">
+                            {format(riskMetrics.historicalVaR.valueAtRisk)}
+                          </span>
+                        </div>
+                        <div className="py-2 border-b border-border/30">
+                          <span className="text-sm text-muted-foreground">Worst Historical Periods:</span>
+                          <div className="mt-2 space-y-1">
+                            {riskMetrics.historicalVaR.worstDays.map(day => (
+                              <div key={day.date.toISOString()} className="flex justify-between text-xs">
+                                <span className="text-muted-foreground">
+                                  {formatAsOfDate(day.date)} ({day.rateReturn >= 0 ? '+' : ''}{(day.rateReturn * 100).toFixed(2)}%)
+                                </span>
+                                <span className="font-medium text-loss">
+                                  {format(day.pnl)}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      </>
+                    )}
+                    <div className="flex justify-between items-center py-2 border-b border-border/30">
                       <span className="text-sm text-muted-foreground">Hedged P&L:</span>
                       <span className={`font-medium ${riskMetrics.hedgedPnL >= 0 ? 'text-profit' : 'text-loss'}`}>
-                        ${(riskMetrics.hedgedPnL / 1000000).toFixed(2)}M
+                        {format(toReporting(riskMetrics.hedgedPnL, riskScenario.shockedFXRate))}
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center py-2 border-b border-border/30">
+                      <span className="text-sm text-muted-foreground">Book Delta / MYR Rho:</span>
+                      <span className="font-medium">
+                        {formatMoney(money(riskMetrics.greeks.delta, pair.base))} / {format(riskMetrics.greeks.rhoDomestic)} per bp
                       </span>
                     </div>
+                    {optionHedges && (
+                      <div className="flex justify-between items-center py-2 border-b border-border/30">
+                        <span className="text-sm text-muted-foreground">Option Premium ({selectedStrike.label}):</span>
+                        <span className="font-medium">
+                          {format(calculateOptionPremium(optionHedges))}
+                        </span>
+                      </div>
+                    )}
+                    {riskMetrics.run && (
+                      <div className="flex justify-between items-center py-2">
+                        <span className="text-sm text-muted-foreground">Run Seed:</span>
+                        <span className="font-medium font-mono" title={`As of ${riskMetrics.run.asOfDate}`}>
+                          {riskMetrics.run.seed}
+                        </span>
+                      </div>
+                    )}
                   </>
                 )}
               </div>
@@ -261,8 +722,10 @@ const Index = () => {
             <h3 className="text-lg font-semibold text-foreground mb-4">Portfolio Summary</h3>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <div className="text-center">
-                <p className="text-2xl font-bold text-primary">{trades.length}</p>
-                <p className="text-sm text-muted-foreground">Active Trades</p>
+                <p className="text-2xl font-bold text-primary">{pairTrades.length}</p>
+                <p className="text-sm text-muted-foreground">
+                  {pair.pair} Trades of {trades.length} ({tradeSourceLabels[tradeSource]})
+                </p>
               </div>
               <div className="text-center">
                 <p className="text-2xl font-bold text-accent">
@@ -279,10 +742,21 @@ const Index = () => {
             </div>
           </Card>
 
-          {isLoading && (
-            <div className="flex items-center justify-center py-12">
-              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-              <span className="ml-3 text-muted-foreground">Running simulation...</span>
+          <TradeImportDialog
+            open={importFile !== null}
+            fileName={importFile?.name ?? ''}
+            parsed={importFile?.parsed ?? null}
+            onOpenChange={(open) => { if (!open) setImportFile(null); }}
+            onImport={handleImport}
+          />
+
+          {isRunning && (
+            <div className="flex items-center justify-center gap-4 py-12">
+              <Progress value={simulationProgress} className="w-64" />
+              <span className="text-muted-foreground">Running simulation... {simulationProgress}%</span>
+              <Button variant="outline" size="sm" onClick={cancelSimulation}>
+                Cancel
+              </Button>
             </div>
           )}
         </div>
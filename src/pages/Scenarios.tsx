@@ -0,0 +1,285 @@
+import { useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, Save, Play, Upload, Trash2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ScenarioComparisonChart } from "@/components/RiskChart";
+import { useToast } from "@/hooks/use-toast";
+import { usePortfolio } from "@/hooks/use-portfolio";
+import { useReportingCurrency } from "@/hooks/use-reporting-currency";
+import { useSavedScenarios } from "@/hooks/use-saved-scenarios";
+import { compareScenarios, type SavedScenario, type ScenarioResult } from "@/lib/scenario-library";
+import type { RiskMetrics, SimulationParameters } from "@/lib/fx-calculations";
+import { formatMoney } from "@/lib/money";
+import { DEFAULT_PAIR, getPairConfig } from "@/lib/currency-pairs";
+import { STRESS_CATALOGUE } from "@/lib/stress-scenarios";
+import { PAIR_HISTORIES } from "@/data/usdmyr-history";
+
+// Scenarios saved before multi-currency support were all USD/MYR
+const savedPair = (parameters: SimulationParameters) => getPairConfig(parameters.currencyPair ?? DEFAULT_PAIR);
+
+const savedStress = (saved: SavedScenario) => STRESS_CATALOGUE.find(stress => stress.id === saved.stressId) ?? null;
+
+const describeParameters = (parameters: SimulationParameters) => {
+  const pair = savedPair(parameters);
+  const target = parameters.curveShockTarget === 'both' ? `${pair.base}+MYR` : parameters.curveShockTarget;
+  const sign = parameters.interestRateShock > 0 ? '+' : '';
+  return `${pair.pair} · ${sign}${parameters.interestRateShock}bps ${target} ${parameters.curveShockType} · ` +
+    `${parameters.currentFXRate.toFixed(pair.decimals)} · ${(parameters.volatility * 100).toFixed(0)}% vol`;
+};
+
+type ReportingFormat = (amountMYR: number, pairRate: number) => string;
+
+// Rows of the comparison table, read from each scenario's risk metrics. P&L converts at the
+// scenario's shocked rate, risk measures at its spot rate
+const COMPARISON_ROWS: Array<{ label: string; value: (result: ScenarioResult, format: ReportingFormat) => string; pnl?: (metrics: RiskMetrics) => number }> = [
+  { label: 'Currency Pair', value: ({ saved }) => savedPair(saved.parameters).pair },
+  { label: 'As-of Date', value: ({ saved }) => saved.parameters.asOfDate },
+  { label: 'Stress', value: ({ saved }) => savedStress(saved)?.name ?? '—' },
+  { label: 'Rate Shock', value: ({ saved }) => `${saved.parameters.interestRateShock} bps` },
+  { label: 'Spot FX Rate', value: ({ saved }) => saved.scenario.currentFXRate.toFixed(savedPair(saved.parameters).decimals) },
+  { label: 'Shocked FX Rate', value: ({ saved }) => saved.scenario.shockedFXRate.toFixed(savedPair(saved.parameters).decimals) },
+  { label: 'Volatility', value: ({ saved }) => `${(saved.scenario.volatility * 100).toFixed(1)}%` },
+  {
+    label: 'Unhedged P&L',
+    value: ({ saved, metrics }, format) => format(metrics.unhedgedPnL, saved.scenario.shockedFXRate),
+    pnl: metrics => metrics.unhedgedPnL,
+  },
+  {
+    label: 'Hedged P&L',
+    value: ({ saved, metrics }, format) => format(metrics.hedgedPnL, saved.scenario.shockedFXRate),
+    pnl: metrics => metrics.hedgedPnL,
+  },
+  { label: 'Hedge Ratio', value: ({ metrics }) => `${(metrics.optimalHedgeRatio * 100).toFixed(1)}%` },
+  { label: 'Hedge Cost', value: ({ saved, metrics }, format) => format(metrics.hedgeCost, saved.scenario.currentFXRate) },
+  {
+    label: 'Value at Risk',
+    value: ({ saved, metrics }, format) =>
+      `${format(metrics.valueAtRisk, saved.scenario.currentFXRate)} (${(metrics.varConfidenceLevel * 100).toFixed(1)}%, ${metrics.varTimeHorizon}d)`,
+  },
+  { label: 'Expected Shortfall', value: ({ saved, metrics }, format) => format(metrics.expectedShortfall, saved.scenario.currentFXRate) },
+  {
+    label: 'Historical VaR',
+    value: ({ saved, metrics }, format) =>
+      metrics.historicalVaR ? format(metrics.historicalVaR.valueAtRisk, saved.scenario.currentFXRate) : '—',
+  },
+];
+
+const Scenarios = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { parameters, riskScenario, trades, asOfDate, activeStress, applyParameters, applyStress } = usePortfolio();
+  const { scenarios, saveScenario, removeScenario } = useSavedScenarios();
+  const { currency, toReporting, toReportingCurve } = useReportingCurrency();
+
+  const [name, setName] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [results, setResults] = useState<ScenarioResult[]>([]);
+
+  const selected = useMemo(
+    () => scenarios.filter(saved => selectedIds.includes(saved.id)),
+    [scenarios, selectedIds]
+  );
+
+  const handleSave = () => {
+    // The scenario carries the active stress's shocks; its id lets loading re-apply them
+    const saved = saveScenario(name, parameters, riskScenario, activeStress?.id);
+    setSelectedIds(prev => [...prev, saved.id]);
+    setName('');
+    toast({ title: "Scenario Saved", description: `"${saved.name}" added to the library.` });
+  };
+
+  const handleLoad = (id: string) => {
+    const saved = scenarios.find(item => item.id === id);
+    if (!saved) return;
+    applyParameters(saved.parameters);
+    applyStress(savedStress(saved));
+    navigate('/');
+  };
+
+  const handleRemove = (id: string) => {
+    removeScenario(id);
+    setSelectedIds(prev => prev.filter(selectedId => selectedId !== id));
+    setResults(prev => prev.filter(result => result.saved.id !== id));
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, id] : prev.filter(selectedId => selectedId !== id));
+  };
+
+  const handleCompare = () => {
+    setResults(compareScenarios(trades, selected, {
+      asOfDate,
+      histories: PAIR_HISTORIES,
+    }));
+  };
+
+  const chartSeries = useMemo(() => results.map(result => ({
+    id: result.saved.id,
+    label: result.saved.name,
+    data: toReportingCurve(result.sensitivity, savedPair(result.saved.parameters).pair),
+    marker: result.saved.scenario.shockedFXRate,
+  })), [results, toReportingCurve]);
+
+  // Each scenario's amounts convert at its own pair's rates
+  const formatterFor = (saved: SavedScenario): ReportingFormat => (amountMYR, pairRate) =>
+    formatMoney(toReporting(amountMYR, pairRate, savedPair(saved.parameters).pair));
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <header className="mb-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">
+              Scenario Library
+            </h1>
+            <p className="text-muted-foreground">
+              Save parameter sets and compare their risk side by side on the current trade book
+            </p>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Dashboard
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="lg:col-span-1 space-y-6">
+          <Card className="bg-gradient-card shadow-elegant border-border/50 p-6 space-y-4">
+            <h3 className="text-lg font-semibold text-foreground">Save Current Scenario</h3>
+            <p className="text-xs text-muted-foreground">{describeParameters(parameters)}</p>
+            {activeStress && (
+              <p className="text-xs text-muted-foreground">Saved with the applied stress: {activeStress.name}</p>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="scenario-name" className="text-sm font-medium text-foreground">Name</Label>
+              <Input
+                id="scenario-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter' && name.trim()) handleSave(); }}
+                placeholder="e.g. MYR +200bps parallel"
+                className="bg-input border-border"
+              />
+            </div>
+            <Button onClick={handleSave} disabled={!name.trim()} className="w-full bg-gradient-primary hover:opacity-90">
+              <Save className="w-4 h-4 mr-2" />
+              Save Scenario
+            </Button>
+          </Card>
+
+          <Card className="bg-gradient-card shadow-elegant border-border/50 p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-foreground">Saved</h3>
+              <span className="text-xs text-muted-foreground">{scenarios.length} scenarios</span>
+            </div>
+            {scenarios.length === 0 && (
+              <p className="text-sm text-muted-foreground">No saved scenarios yet.</p>
+            )}
+            <div className="space-y-3">
+              {scenarios.map(saved => (
+                <div key={saved.id} className="flex items-start space-x-3 py-2 border-b border-border/30">
+                  <Checkbox
+                    id={saved.id}
+                    checked={selectedIds.includes(saved.id)}
+                    onCheckedChange={(checked) => toggleSelected(saved.id, checked === true)}
+                    className="mt-1"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <Label htmlFor={saved.id} className="text-sm font-medium text-foreground">{saved.name}</Label>
+                    <p className="text-xs text-muted-foreground truncate">{describeParameters(saved.parameters)}</p>
+                    <p className="text-xs text-muted-foreground">{format(new Date(saved.savedAt), 'dd MMM yyyy HH:mm')}</p>
+                  </div>
+                  <div className="flex space-x-1">
+                    <Button variant="ghost" size="icon" title="Load into dashboard" onClick={() => handleLoad(saved.id)}>
+                      <Upload className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" title="Delete" onClick={() => handleRemove(saved.id)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <Button
+              onClick={handleCompare}
+              disabled={selected.length === 0 || trades.length === 0}
+              className="w-full"
+              variant="outline"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              Compare Selected ({selected.length})
+            </Button>
+          </Card>
+        </div>
+
+        <div className="lg:col-span-3 space-y-6">
+          {results.length === 0 ? (
+            <Card className="bg-gradient-card shadow-elegant border-border/50 p-12 text-center">
+              <p className="text-muted-foreground">
+                Select saved scenarios and run a comparison to see their results side by side.
+              </p>
+            </Card>
+          ) : (
+            <>
+              <ScenarioComparisonChart
+                series={chartSeries}
+                currency={currency}
+                title="Hedged P&L by Scenario (dashed: shocked rate)"
+              />
+
+              <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
+                <h3 className="text-lg font-semibold text-foreground mb-4">Comparison</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Metric</TableHead>
+                      {results.map(result => (
+                        <TableHead key={result.saved.id} className="text-right">{result.saved.name}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {COMPARISON_ROWS.map(row => (
+                      <TableRow key={row.label}>
+                        <TableCell className="text-muted-foreground">{row.label}</TableCell>
+                        {results.map(result => (
+                          <TableCell
+                            key={result.saved.id}
+                            className={`text-right font-mono ${row.pnl ? (row.pnl(result.metrics) >= 0 ? 'text-profit' : 'text-loss') : ''}`}
+                          >
+                            {row.value(result, formatterFor(result.saved))}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <p className="text-xs text-muted-foreground mt-4">
+                  Each scenario runs on the current book's trades in the pair it was saved on; Expected Shortfall is parametric.
+                </p>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Scenarios;
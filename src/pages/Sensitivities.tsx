@@ -0,0 +1,321 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Activity, Gauge, Waves, Timer } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine
+} from 'recharts';
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { MetricsCard } from "@/components/MetricsCard";
+import { usePortfolio } from "@/hooks/use-portfolio";
+import {
+  buildForwardHedges,
+  buildOptionHedges,
+  buildGreeksLadder,
+  calculateHedgeGreeks,
+  calculateTradeGreeks,
+  getMaturityBucket
+} from "@/lib/fx-calculations";
+import { sumGreeks, type Greeks } from "@/lib/fx-options";
+import { getPairConfig } from "@/lib/currency-pairs";
+import type { ForeignCurrency } from "@/lib/money";
+
+type HedgeInstrument = 'none' | 'forwards' | 'options';
+
+// Delta and gamma are in the pair's base currency, the rest in MYR
+const buildGreekRows = (base: ForeignCurrency): Array<{ key: keyof Greeks; label: string; unit: string }> => [
+  { key: 'delta', label: 'Delta', unit: base },
+  { key: 'gamma', label: 'Gamma', unit: `${base} per 1%` },
+  { key: 'vega', label: 'Vega', unit: 'MYR per vol pt' },
+  { key: 'rhoForeign', label: `Rho ${base}`, unit: 'MYR per bp' },
+  { key: 'rhoDomestic', label: 'Rho MYR', unit: 'MYR per bp' },
+  { key: 'theta', label: 'Theta', unit: 'MYR per day' },
+];
+
+const formatGreek = (value: number) => {
+  if (Math.abs(value) >= 1000000) return `${(value / 1000000).toFixed(2)}M`;
+  if (Math.abs(value) >= 1000) return `${(value / 1000).toFixed(1)}K`;
+  return value.toFixed(0);
+};
+
+const Sensitivities = () => {
+  const { pairTrades, parameters, riskScenario, asOfDate } = usePortfolio();
+  const pair = getPairConfig(parameters.currencyPair);
+  const greekRows = buildGreekRows(pair.base);
+
+  const [instrument, setInstrument] = useState<HedgeInstrument>('forwards');
+  const [hedgeRatio, setHedgeRatio] = useState(0.5);
+  const [selectedGreek, setSelectedGreek] = useState<keyof Greeks>('delta');
+
+  const tradeGreeks = useMemo(
+    () => calculateTradeGreeks(pairTrades, riskScenario, asOfDate),
+    [pairTrades, riskScenario, asOfDate]
+  );
+
+  const hedgeGreeks = useMemo(() => {
+    const forwards = instrument === 'forwards' ? buildForwardHedges(pairTrades, hedgeRatio, riskScenario, asOfDate) : [];
+    const options = instrument === 'options' ? buildOptionHedges(pairTrades, hedgeRatio, riskScenario, asOfDate) : [];
+    return calculateHedgeGreeks(forwards, options, riskScenario, asOfDate);
+  }, [pairTrades, instrument, hedgeRatio, riskScenario, asOfDate]);
+
+  const ladder = useMemo(
+    () => buildGreeksLadder(tradeGreeks, hedgeGreeks, asOfDate),
+    [tradeGreeks, hedgeGreeks, asOfDate]
+  );
+
+  const net = useMemo(() => sumGreeks(ladder.map(row => row.net)), [ladder]);
+
+  const chartData = useMemo(() => ladder.map(row => ({
+    bucket: row.bucket,
+    trades: row.trades[selectedGreek],
+    hedges: row.hedges[selectedGreek],
+    net: row.net[selectedGreek],
+  })), [ladder, selectedGreek]);
+
+  // Largest positions by delta, hedges alongside the trades they offset
+  const positions = useMemo(() => {
+    const rows = [
+      ...tradeGreeks.map(position => ({ ...position, kind: 'Trade' })),
+      ...hedgeGreeks.map(position => ({ ...position, kind: 'Hedge' })),
+    ];
+    return rows.sort((a, b) => Math.abs(b.greeks.delta) - Math.abs(a.greeks.delta));
+  }, [tradeGreeks, hedgeGreeks]);
+
+  const greek = greekRows.find(item => item.key === selectedGreek)!;
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <header className="mb-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">
+              Sensitivities &amp; Delta Ladder
+            </h1>
+            <p className="text-muted-foreground">
+              Delta, gamma, vega, rho and theta of the {pair.pair} book and its hedges by maturity bucket
+            </p>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Dashboard
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="lg:col-span-1">
+          <Card className="bg-gradient-card shadow-elegant border-border/50 p-6 space-y-6">
+            <h3 className="text-lg font-semibold text-foreground">Hedge Overlay</h3>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-foreground">Instrument</Label>
+              <Select value={instrument} onValueChange={(value) => setInstrument(value as HedgeInstrument)}>
+                <SelectTrigger className="bg-input border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Unhedged</SelectItem>
+                  <SelectItem value="forwards">Forwards</SelectItem>
+                  <SelectItem value="options">ATM-Forward Options</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {instrument !== 'none' && (
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-foreground">
+                  Hedge Ratio: {(hedgeRatio * 100).toFixed(0)}%
+                </Label>
+                <Slider
+                  value={[hedgeRatio]}
+                  onValueChange={(value) => setHedgeRatio(value[0])}
+                  max={1}
+                  min={0}
+                  step={0.05}
+                  className="w-full"
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-foreground">Ladder Sensitivity</Label>
+              <Select value={selectedGreek} onValueChange={(value) => setSelectedGreek(value as keyof Greeks)}>
+                <SelectTrigger className="bg-input border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {greekRows.map(item => (
+                    <SelectItem key={item.key} value={item.key}>{item.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="pt-4 border-t border-border text-xs space-y-1 text-muted-foreground">
+              {greekRows.map(item => (
+                <p key={item.key}>• {item.label}: {item.unit}</p>
+              ))}
+            </div>
+          </Card>
+        </div>
+
+        <div className="lg:col-span-3 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+            <MetricsCard
+              title="Net Delta"
+              value={`${pair.base} ${formatGreek(net.delta)}`}
+              icon={<Activity className="w-5 h-5" />}
+            />
+            <MetricsCard
+              title="Net Gamma (1%)"
+              value={`${pair.base} ${formatGreek(net.gamma)}`}
+              icon={<Gauge className="w-5 h-5" />}
+            />
+            <MetricsCard
+              title="Net Vega"
+              value={`MYR ${formatGreek(net.vega)}`}
+              icon={<Waves className="w-5 h-5" />}
+            />
+            <MetricsCard
+              title="Net Theta"
+              value={`MYR ${formatGreek(net.theta)}`}
+              subtitle="per day"
+              icon={<Timer className="w-5 h-5" />}
+              trend={net.theta >= 0 ? 'positive' : 'negative'}
+            />
+          </div>
+
+          <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
+            <h3 className="text-lg font-semibold text-foreground mb-4">
+              {greek.label} Ladder ({greek.unit})
+            </h3>
+            <ResponsiveContainer width="100%" height={320}>
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="bucket" stroke="hsl(var(--muted-foreground))" tick={{ fontSize: 12 }} />
+                <YAxis
+                  stroke="hsl(var(--muted-foreground))"
+                  tick={{ fontSize: 12 }}
+                  tickFormatter={formatGreek}
+                />
+                <Tooltip
+                  formatter={(value: number) => formatGreek(value)}
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px'
+                  }}
+                />
+                <Legend />
+                <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+                <Bar dataKey="trades" name="Trades" fill="rgb(239 68 68)" />
+                <Bar dataKey="hedges" name="Hedges" fill="hsl(var(--primary))" />
+                <Bar dataKey="net" name="Net" fill="hsl(var(--profit))" />
+              </BarChart>
+            </ResponsiveContainer>
+          </Card>
+
+          <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
+            <h3 className="text-lg font-semibold text-foreground mb-4">Net Sensitivities by Maturity</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Bucket</TableHead>
+                  {greekRows.map(item => (
+                    <TableHead key={item.key} className="text-right">{item.label}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ladder.map(row => (
+                  <TableRow key={row.bucket}>
+                    <TableCell className="font-medium">{row.bucket}</TableCell>
+                    {greekRows.map(item => (
+                      <TableCell
+                        key={item.key}
+                        className="text-right font-mono"
+                        title={`Trades ${formatGreek(row.trades[item.key])} / Hedges ${formatGreek(row.hedges[item.key])}`}
+                      >
+                        {formatGreek(row.net[item.key])}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="font-semibold">Total</TableCell>
+                  {greekRows.map(item => (
+                    <TableCell key={item.key} className="text-right font-mono font-semibold">
+                      {formatGreek(net[item.key])}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableBody>
+            </Table>
+          </Card>
+
+          <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
+            <h3 className="text-lg font-semibold text-foreground mb-4">Positions</h3>
+            <ScrollArea className="h-96">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>ID</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Bucket</TableHead>
+                    {greekRows.map(item => (
+                      <TableHead key={item.key} className="text-right">{item.label}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {positions.map(position => (
+                    <TableRow key={position.id}>
+                      <TableCell className="font-mono text-xs">{position.id}</TableCell>
+                      <TableCell>{position.kind}</TableCell>
+                      <TableCell>{getMaturityBucket(position, asOfDate)}</TableCell>
+                      {greekRows.map(item => (
+                        <TableCell key={item.key} className="text-right font-mono">
+                          {formatGreek(position.greeks[item.key])}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Sensitivities;
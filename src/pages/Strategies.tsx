@@ -0,0 +1,272 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Layers, Target, Clock } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { MetricsCard } from "@/components/MetricsCard";
+import { RiskChart } from "@/components/RiskChart";
+import { usePortfolio } from "@/hooks/use-portfolio";
+import { useReportingCurrency } from "@/hooks/use-reporting-currency";
+import {
+  buildForwardHedges,
+  calculateExposureSummary,
+  calculateScenarioForward,
+  calculateScenarioRates,
+  daysToMaturity
+} from "@/lib/fx-calculations";
+import {
+  buildZeroCostStrategy,
+  generateStrategyProfile,
+  HEDGE_STRATEGIES,
+  type HedgeStrategyType
+} from "@/lib/hedge-strategies";
+import { money } from "@/lib/money";
+import { getPairConfig } from "@/lib/currency-pairs";
+
+const Strategies = () => {
+  const { pairTrades: trades, parameters, riskScenario, asOfDate } = usePortfolio();
+  const pair = getPairConfig(parameters.currencyPair);
+  const { currency, toReportingCurve, format } = useReportingCurrency();
+
+  const [strategyType, setStrategyType] = useState<HedgeStrategyType>('collar');
+  const [protection, setProtection] = useState(0.02);
+  const [wing, setWing] = useState(0.03);
+  const [participation, setParticipation] = useState(0.5);
+  const [coverage, setCoverage] = useState(1);
+
+  // Net position and its notional-weighted tenor set the structure's size and expiry
+  const book = useMemo(() => {
+    const { grossNotional, netNotional } = calculateExposureSummary(trades);
+    const weightedDays = trades.reduce((sum, trade) => sum + trade.notional * daysToMaturity(trade, asOfDate), 0);
+    const tenorYears = grossNotional > 0 ? weightedDays / grossNotional / 365 : 0;
+    return { netNotional, tenorYears };
+  }, [trades, asOfDate]);
+
+  const strategy = useMemo(() => {
+    const rates = calculateScenarioRates(riskScenario, book.tenorYears, false);
+    return buildZeroCostStrategy(
+      strategyType,
+      book.netNotional >= 0 ? 'long' : 'short',
+      {
+        spotRate: riskScenario.currentFXRate,
+        forwardRate: calculateScenarioForward(riskScenario, riskScenario.currentFXRate, book.tenorYears, false),
+        tenorYears: book.tenorYears,
+        domesticRate: rates.domestic,
+        foreignRate: rates.foreign,
+        volatility: riskScenario.volatility,
+      },
+      { protection, wing, participation }
+    );
+  }, [strategyType, book, riskScenario, protection, wing, participation]);
+
+  const profile = useMemo(() => {
+    if (trades.length === 0) return [];
+    return generateStrategyProfile(
+      trades,
+      riskScenario.currentFXRate,
+      strategy,
+      Math.abs(book.netNotional) * coverage,
+      buildForwardHedges(trades, coverage, riskScenario, asOfDate)
+    );
+  }, [trades, riskScenario, strategy, book, coverage, asOfDate]);
+  const reportedProfile = useMemo(() => toReportingCurve(profile), [profile, toReportingCurve]);
+
+  const strategyLabel = HEDGE_STRATEGIES.find(item => item.type === strategyType)?.label ?? strategyType;
+  const hedgedNotional = Math.abs(book.netNotional) * coverage;
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <header className="mb-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">
+              Hedge Strategy Builder
+            </h1>
+            <p className="text-muted-foreground">
+              Zero-premium collars, seagulls and participating forwards on the net {pair.pair} exposure
+            </p>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Dashboard
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="lg:col-span-1">
+          <Card className="bg-gradient-card shadow-elegant border-border/50 p-6 space-y-6">
+            <h3 className="text-lg font-semibold text-foreground">Structure</h3>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-foreground">Strategy</Label>
+              <Select value={strategyType} onValueChange={(value) => setStrategyType(value as HedgeStrategyType)}>
+                <SelectTrigger className="bg-input border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HEDGE_STRATEGIES.map(item => (
+                    <SelectItem key={item.type} value={item.type}>{item.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-foreground">
+                Coverage of Net Exposure: {(coverage * 100).toFixed(0)}%
+              </Label>
+              <Slider
+                value={[coverage]}
+                onValueChange={(value) => setCoverage(value[0])}
+                max={1}
+                min={0}
+                step={0.05}
+                className="w-full"
+              />
+            </div>
+
+            {strategyType === 'participating-forward' ? (
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-foreground">
+                  Participation: {(participation * 100).toFixed(0)}%
+                </Label>
+                <Slider
+                  value={[participation]}
+                  onValueChange={(value) => setParticipation(value[0])}
+                  max={0.9}
+                  min={0}
+                  step={0.05}
+                  className="w-full"
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-foreground">
+                  Protection Strike: {(protection * 100).toFixed(1)}% OTM
+                </Label>
+                <Slider
+                  value={[protection]}
+                  onValueChange={(value) => setProtection(value[0])}
+                  max={0.05}
+                  min={0}
+                  step={0.0025}
+                  className="w-full"
+                />
+              </div>
+            )}
+
+            {strategyType === 'seagull' && (
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-foreground">
+                  Sold Wing: {(wing * 100).toFixed(1)}% beyond protection
+                </Label>
+                <Slider
+                  value={[wing]}
+                  onValueChange={(value) => setWing(value[0])}
+                  max={0.1}
+                  min={0.01}
+                  step={0.005}
+                  className="w-full"
+                />
+              </div>
+            )}
+
+            <div className="pt-4 border-t border-border text-xs space-y-1 text-muted-foreground">
+              <p>• Strikes are solved so the structure costs zero premium</p>
+              <p>• Options priced with Garman-Kohlhagen at the scenario volatility</p>
+              <p>• Forward comparison hedges each trade at its own forward</p>
+            </div>
+          </Card>
+        </div>
+
+        <div className="lg:col-span-3 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <MetricsCard
+              title={`Net ${pair.base} Exposure`}
+              value={money(book.netNotional, pair.base)}
+              subtitle={book.netNotional >= 0 ? 'Receivable' : 'Payable'}
+              icon={<Target className="w-5 h-5" />}
+            />
+            <MetricsCard
+              title="Weighted Tenor"
+              value={`${(book.tenorYears * 12).toFixed(1)}M`}
+              subtitle="Notional-weighted"
+              icon={<Clock className="w-5 h-5" />}
+            />
+            <MetricsCard
+              title="Net Premium"
+              value={format(strategy.netPremium * hedgedNotional)}
+              subtitle={strategyLabel}
+              icon={<Layers className="w-5 h-5" />}
+            />
+          </div>
+
+          <RiskChart
+            data={reportedProfile}
+            currency={currency}
+            overlays={[{ key: 'forwardHedgedPnl', label: `Forward Hedged (${(coverage * 100).toFixed(0)}%)` }]}
+            hedgedLabel={strategyLabel}
+            title="Payoff vs Unhedged Exposure"
+            height={400}
+          />
+
+          <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
+            <h3 className="text-lg font-semibold text-foreground mb-4">Legs</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Side</TableHead>
+                  <TableHead>{pair.base} Option</TableHead>
+                  <TableHead className="text-right">Strike</TableHead>
+                  <TableHead className="text-right">Notional ({pair.base})</TableHead>
+                  <TableHead className="text-right">Premium (MYR per {pair.base})</TableHead>
+                  <TableHead className="text-right">Premium (MYR)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {strategy.legs.map((leg, index) => (
+                  <TableRow key={index}>
+                    <TableCell className={leg.side === 'buy' ? 'text-profit' : 'text-loss'}>
+                      {leg.side === 'buy' ? 'Buy' : 'Sell'}
+                    </TableCell>
+                    <TableCell className="capitalize">{leg.optionType}</TableCell>
+                    <TableCell className="text-right font-mono">{leg.strike.toFixed(pair.decimals)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {(hedgedNotional * leg.notionalFraction / 1000000).toFixed(2)}M
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{leg.premium.toFixed(pair.decimals)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {((leg.side === 'buy' ? 1 : -1) * leg.premium * leg.notionalFraction * hedgedNotional / 1000000).toFixed(2)}M
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Strategies;
@@ -0,0 +1,203 @@
+import { useMemo } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Zap, X } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine
+} from 'recharts';
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { usePortfolio } from "@/hooks/use-portfolio";
+import { useReportingCurrency } from "@/hooks/use-reporting-currency";
+import { buildRiskScenario } from "@/lib/fx-calculations";
+import { formatMillions } from "@/lib/money";
+import { getPairConfig } from "@/lib/currency-pairs";
+import { runStressTests, STRESS_CATALOGUE, stressAppliesTo, type StressScenario } from "@/lib/stress-scenarios";
+
+const describeShocks = (stress: StressScenario, base: string) => {
+  if (stress.curveShocks.length === 0) return 'None';
+  return stress.curveShocks
+    .map(shock => `${shock.target === 'both' ? `${base}+MYR` : shock.target} ${shock.bps > 0 ? '+' : ''}${shock.bps}bps ${shock.type}`)
+    .join(', ');
+};
+
+const StressTests = () => {
+  const navigate = useNavigate();
+  const { pairTrades: trades, parameters, markets, asOfDate, activeStress, applyStress } = usePortfolio();
+  const pair = getPairConfig(parameters.currencyPair);
+  const { currency, toReporting, format } = useReportingCurrency();
+
+  // Only the stresses that moved this pair, always applied to the unstressed base scenario
+  const catalogue = useMemo(() => STRESS_CATALOGUE.filter(stress => stressAppliesTo(stress, pair.pair)), [pair.pair]);
+  const results = useMemo(() => {
+    if (trades.length === 0) return [];
+    return runStressTests(trades, buildRiskScenario(parameters, markets[pair.pair].curves), catalogue, {
+      asOfDate,
+      confidenceLevel: parameters.confidenceLevel,
+      timeHorizon: parameters.timeHorizon,
+      exposureBasis: parameters.exposureBasis,
+    });
+  }, [trades, parameters, markets, pair.pair, catalogue, asOfDate]);
+
+  // Stressed P&L is realised at the stressed rate, so it converts at that rate
+  const chartData = useMemo(() => results.map(result => ({
+    name: result.stress.name,
+    unhedged: toReporting(result.unhedgedPnL, result.scenario.shockedFXRate, pair.pair).amount / 1000000,
+    hedged: toReporting(result.hedgedPnL, result.scenario.shockedFXRate, pair.pair).amount / 1000000,
+  })), [results, toReporting, pair.pair]);
+
+  const handleApply = (stress: StressScenario) => {
+    applyStress(stress);
+    navigate('/');
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <header className="mb-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">
+              Stress Testing
+            </h1>
+            <p className="text-muted-foreground">
+              Historical and hypothetical stresses ranked by loss on the current {pair.pair} book
+            </p>
+          </div>
+          <div className="flex items-center space-x-4">
+            {activeStress && (
+              <Button variant="outline" size="sm" onClick={() => applyStress(null)}>
+                <X className="w-4 h-4 mr-2" />
+                Clear {activeStress.name}
+              </Button>
+            )}
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Dashboard
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="space-y-6">
+        <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
+          <h3 className="text-lg font-semibold text-foreground mb-4">P&L by Stress Scenario</h3>
+          <ResponsiveContainer width="100%" height={Math.max(240, chartData.length * 56)}>
+            <BarChart data={chartData} layout="vertical" margin={{ left: 40 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis
+                type="number"
+                stroke="hsl(var(--muted-foreground))"
+                tick={{ fontSize: 12 }}
+                tickFormatter={(value: number) => formatMillions(value, currency, 1)}
+              />
+              <YAxis
+                type="category"
+                dataKey="name"
+                width={180}
+                stroke="hsl(var(--muted-foreground))"
+                tick={{ fontSize: 12 }}
+              />
+              <Tooltip
+                formatter={(value: number) => formatMillions(value, currency)}
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '8px'
+                }}
+              />
+              <Legend />
+              <ReferenceLine x={0} stroke="hsl(var(--muted-foreground))" />
+              <Bar dataKey="unhedged" name="Unhedged P&L" fill="rgb(239 68 68)" />
+              <Bar dataKey="hedged" name="Hedged P&L" fill="hsl(var(--profit))" />
+            </BarChart>
+          </ResponsiveContainer>
+        </Card>
+
+        <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
+          <h3 className="text-lg font-semibold text-foreground mb-4">Ranked by Unhedged Loss</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Scenario</TableHead>
+                <TableHead className="text-right">Spot Move</TableHead>
+                <TableHead>Curve Shocks</TableHead>
+                <TableHead className="text-right">Vol</TableHead>
+                <TableHead className="text-right">Shocked Rate</TableHead>
+                <TableHead className="text-right">Unhedged P&L</TableHead>
+                <TableHead className="text-right">Hedged P&L</TableHead>
+                <TableHead className="text-right">Stressed VaR</TableHead>
+                <TableHead className="text-right"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map((result, index) => (
+                <TableRow key={result.stress.id}>
+                  <TableCell className="font-medium">{index + 1}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-foreground">{result.stress.name}</span>
+                      <Badge variant="secondary" className="capitalize">{result.stress.category}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{result.stress.description}</p>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {result.stress.spotMove > 0 ? '+' : ''}{(result.stress.spotMove * 100).toFixed(0)}%
+                  </TableCell>
+                  <TableCell className="text-xs">{describeShocks(result.stress, pair.base)}</TableCell>
+                  <TableCell className="text-right font-mono">{(result.scenario.volatility * 100).toFixed(0)}%</TableCell>
+                  <TableCell className="text-right font-mono">{result.scenario.shockedFXRate.toFixed(pair.decimals)}</TableCell>
+                  <TableCell className={`text-right font-mono ${result.unhedgedPnL >= 0 ? 'text-profit' : 'text-loss'}`}>
+                    {format(toReporting(result.unhedgedPnL, result.scenario.shockedFXRate, pair.pair))}
+                  </TableCell>
+                  <TableCell className={`text-right font-mono ${result.hedgedPnL >= 0 ? 'text-profit' : 'text-loss'}`}>
+                    {format(toReporting(result.hedgedPnL, result.scenario.shockedFXRate, pair.pair))}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{format(result.valueAtRisk)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant={activeStress?.id === result.stress.id ? 'secondary' : 'outline'}
+                      onClick={() => handleApply(result.stress)}
+                    >
+                      <Zap className="w-4 h-4 mr-1" />
+                      {activeStress?.id === result.stress.id ? 'Applied' : 'Apply'}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {catalogue.length === 0 && (
+            <p className="text-sm text-muted-foreground mt-4">
+              No catalogued stress moved {pair.pair}; the catalogue covers {[...new Set(STRESS_CATALOGUE.flatMap(stress => stress.pairs))].join(', ')}.
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground mt-4">
+            Stress sizes are approximate historical peak moves, for illustration; hedged P&L uses each stress's own hedge ratio.
+          </p>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default StressTests;
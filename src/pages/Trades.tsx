@@ -0,0 +1,490 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, isValid, parse } from 'date-fns';
+import {
+  ArrowLeft,
+  ArrowUpDown,
+  ArrowUp,
+  ArrowDown,
+  Plus,
+  Pencil,
+  Trash2,
+  Check,
+  X
+} from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { useToast } from "@/hooks/use-toast";
+import { usePortfolio } from "@/hooks/use-portfolio";
+import { useReportingCurrency } from "@/hooks/use-reporting-currency";
+import {
+  revalueTrade,
+  getMaturityBucket,
+  MATURITY_BUCKETS,
+  type FXTrade
+} from "@/lib/fx-calculations";
+import { CURRENCY_PAIRS, getPairConfig, tradePair, type CurrencyPair } from "@/lib/currency-pairs";
+
+type SortKey = 'notional' | 'maturityDate';
+type SortDirection = 'asc' | 'desc';
+
+interface TradeDraft {
+  pair: CurrencyPair;
+  notional: string;
+  tradeDate: string;
+  maturityDate: string;
+  direction: FXTrade['direction'];
+}
+
+const PAGE_SIZE = 20;
+const ALL = 'all';
+
+const toDateInput = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Read a date input back as a local date, keeping the original time of day so tenors don't shift
+const fromDateInput = (value: string, original: Date) => {
+  const date = parse(value, 'yyyy-MM-dd', original);
+  if (!isValid(date)) return date;
+  date.setHours(original.getHours(), original.getMinutes(), original.getSeconds(), original.getMilliseconds());
+  return date;
+};
+
+const compareTrades = (a: FXTrade, b: FXTrade, key: SortKey, direction: SortDirection) => {
+  const left = key === 'notional' ? a.notional : a.maturityDate.getTime();
+  const right = key === 'notional' ? b.notional : b.maturityDate.getTime();
+  return (left - right) * (direction === 'asc' ? 1 : -1);
+};
+
+const Trades = () => {
+  const { toast } = useToast();
+  const { trades, setTrades, parameters, pairScenarios, asOfDate } = usePortfolio();
+  const { format: formatReporting, toReporting } = useReportingCurrency();
+  // Each trade revalues under its own pair's scenario, and its P&L is realised at that pair's shocked rate
+  const scenarioFor = (trade: FXTrade) => pairScenarios[tradePair(trade)];
+  const reportPnL = (pnl: number, trade: FXTrade) =>
+    toReporting(pnl, scenarioFor(trade).shockedFXRate, tradePair(trade));
+
+  const [sortKey, setSortKey] = useState<SortKey>('maturityDate');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  const [pairFilter, setPairFilter] = useState<string>(ALL);
+  const [directionFilter, setDirectionFilter] = useState<string>(ALL);
+  const [bucketFilter, setBucketFilter] = useState<string>(ALL);
+  const [page, setPage] = useState(1);
+  // Rows are edited and deleted by reference, so a trade never stands in for another with the same ID
+  const [editingTrade, setEditingTrade] = useState<FXTrade | null>(null);
+  const [draft, setDraft] = useState<TradeDraft | null>(null);
+
+  // A regenerated or replaced book no longer holds the row being edited, so drop the edit
+  useEffect(() => {
+    if (editingTrade && !trades.includes(editingTrade)) {
+      setEditingTrade(null);
+      setDraft(null);
+    }
+  }, [trades, editingTrade]);
+
+  const visibleTrades = useMemo(() => {
+    const filtered = trades.filter(trade =>
+      (pairFilter === ALL || tradePair(trade) === pairFilter) &&
+      (directionFilter === ALL || trade.direction === directionFilter) &&
+      (bucketFilter === ALL || getMaturityBucket(trade, asOfDate) === bucketFilter)
+    );
+    return filtered.sort((a, b) => compareTrades(a, b, sortKey, sortDirection));
+  }, [trades, pairFilter, directionFilter, bucketFilter, sortKey, sortDirection, asOfDate]);
+
+  const pageCount = Math.max(1, Math.ceil(visibleTrades.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount);
+  const pageTrades = visibleTrades.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+
+  const filteredPnL = useMemo(() => visibleTrades.reduce((sum, trade) => {
+    const pair = tradePair(trade);
+    const scenario = pairScenarios[pair];
+    const pnl = revalueTrade(trade, scenario, asOfDate).pnl;
+    return sum + toReporting(pnl, scenario.shockedFXRate, pair).amount;
+  }, 0), [visibleTrades, pairScenarios, toReporting, asOfDate]);
+
+  const toggleSort = (key: SortKey) => {
+    if (sortKey === key) {
+      setSortDirection(prev => (prev === 'asc' ? 'desc' : 'asc'));
+    } else {
+      setSortKey(key);
+      setSortDirection('asc');
+    }
+  };
+
+  const sortIcon = (key: SortKey) => {
+    if (sortKey !== key) return <ArrowUpDown className="w-3 h-3 ml-1" />;
+    return sortDirection === 'asc'
+      ? <ArrowUp className="w-3 h-3 ml-1" />
+      : <ArrowDown className="w-3 h-3 ml-1" />;
+  };
+
+  const startEditing = (trade: FXTrade) => {
+    setEditingTrade(trade);
+    setDraft({
+      pair: tradePair(trade),
+      notional: trade.notional.toFixed(2),
+      tradeDate: toDateInput(trade.tradeDate),
+      maturityDate: toDateInput(trade.maturityDate),
+      direction: trade.direction,
+    });
+  };
+
+  const cancelEditing = () => {
+    setEditingTrade(null);
+    setDraft(null);
+  };
+
+  const saveEditing = () => {
+    if (!draft || !editingTrade) return;
+    if (!trades.includes(editingTrade)) {
+      toast({ title: "Trade Not Saved", description: "The trade book changed while editing.", variant: "destructive" });
+      cancelEditing();
+      return;
+    }
+
+    const notional = parseFloat(draft.notional);
+    const tradeDate = fromDateInput(draft.tradeDate, editingTrade.tradeDate);
+    const maturityDate = fromDateInput(draft.maturityDate, editingTrade.maturityDate);
+
+    if (!Number.isFinite(notional) || notional <= 0) {
+      toast({ title: "Invalid Trade", description: "Notional must be a positive number.", variant: "destructive" });
+      return;
+    }
+    if (isNaN(tradeDate.getTime()) || isNaN(maturityDate.getTime()) || maturityDate <= tradeDate) {
+      toast({ title: "Invalid Trade", description: "Maturity date must be after trade date.", variant: "destructive" });
+      return;
+    }
+
+    setTrades(
+      trades.map(trade => trade === editingTrade
+        ? { ...trade, pair: draft.pair, notional, tradeDate, maturityDate, direction: draft.direction }
+        : trade),
+      'edited'
+    );
+    cancelEditing();
+  };
+
+  const addTrade = () => {
+    const ids = new Set(trades.map(trade => trade.id));
+    let n = trades.length + 1;
+    while (ids.has(`NEW-${n.toString().padStart(3, '0')}`)) n++;
+
+    const trade: FXTrade = {
+      id: `NEW-${n.toString().padStart(3, '0')}`,
+      pair: pairFilter === ALL ? parameters.currencyPair : pairFilter as CurrencyPair,
+      notional: 1000000,
+      tradeDate: asOfDate,
+      maturityDate: new Date(asOfDate.getTime() + 90 * 24 * 60 * 60 * 1000),
+      direction: 'long',
+    };
+
+    // Clear filters and jump to the page where the new trade sorts to
+    const book = [trade, ...trades];
+    const position = [...book]
+      .sort((a, b) => compareTrades(a, b, sortKey, sortDirection))
+      .indexOf(trade);
+
+    setTrades(book, 'edited');
+    setPairFilter(ALL);
+    setDirectionFilter(ALL);
+    setBucketFilter(ALL);
+    setPage(Math.floor(position / PAGE_SIZE) + 1);
+    startEditing(trade);
+  };
+
+  const deleteTrade = (target: FXTrade) => {
+    setTrades(trades.filter(trade => trade !== target), 'edited');
+    if (editingTrade === target) cancelEditing();
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <header className="mb-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">
+              Trade Blotter
+            </h1>
+            <p className="text-muted-foreground">
+              {trades.length} trades · P&L under {parameters.interestRateShock}bps shock, each pair at its own shocked rate
+            </p>
+          </div>
+          <div className="flex items-center space-x-4">
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Dashboard
+              </Link>
+            </Button>
+            <Button onClick={addTrade} className="bg-gradient-primary hover:opacity-90">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Trade
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <Card className="bg-gradient-card shadow-elegant border-border/50 p-6">
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+          <div className="flex flex-wrap gap-4">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-foreground">Pair</Label>
+              <Select value={pairFilter} onValueChange={(value) => { setPairFilter(value); setPage(1); }}>
+                <SelectTrigger className="w-40 bg-input border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All</SelectItem>
+                  {CURRENCY_PAIRS.map(config => (
+                    <SelectItem key={config.pair} value={config.pair}>{config.pair}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-foreground">Direction</Label>
+              <Select value={directionFilter} onValueChange={(value) => { setDirectionFilter(value); setPage(1); }}>
+                <SelectTrigger className="w-40 bg-input border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All</SelectItem>
+                  <SelectItem value="long">Long</SelectItem>
+                  <SelectItem value="short">Short</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-foreground">Maturity Bucket</Label>
+              <Select value={bucketFilter} onValueChange={(value) => { setBucketFilter(value); setPage(1); }}>
+                <SelectTrigger className="w-40 bg-input border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All</SelectItem>
+                  {MATURITY_BUCKETS.map(bucket => (
+                    <SelectItem key={bucket.label} value={bucket.label}>{bucket.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="text-right">
+            <p className="text-sm text-muted-foreground">{visibleTrades.length} trades shown · Shock P&L</p>
+            <p className={`text-lg font-semibold ${filteredPnL >= 0 ? 'text-profit' : 'text-loss'}`}>
+              {formatReporting(filteredPnL)}
+            </p>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Trade ID</TableHead>
+              <TableHead>Pair</TableHead>
+              <TableHead>Direction</TableHead>
+              <TableHead>
+                <button className="flex items-center" onClick={() => toggleSort('notional')}>
+                  Notional (base){sortIcon('notional')}
+                </button>
+              </TableHead>
+              <TableHead>Trade Date</TableHead>
+              <TableHead>
+                <button className="flex items-center" onClick={() => toggleSort('maturityDate')}>
+                  Maturity{sortIcon('maturityDate')}
+                </button>
+              </TableHead>
+              <TableHead>Bucket</TableHead>
+              <TableHead className="text-right">Shocked Fwd</TableHead>
+              <TableHead className="text-right">Shock P&L</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pageTrades.map(trade => {
+              const isEditing = editingTrade === trade && draft;
+              const pair = getPairConfig(tradePair(trade));
+              const valuation = revalueTrade(trade, scenarioFor(trade), asOfDate);
+              const pnl = valuation.pnl;
+
+              return (
+                <TableRow key={trade.id}>
+                  <TableCell className="font-mono">{trade.id}</TableCell>
+                  <TableCell>
+                    {isEditing ? (
+                      <Select
+                        value={draft.pair}
+                        onValueChange={(value) => setDraft({ ...draft, pair: value as CurrencyPair })}
+                      >
+                        <SelectTrigger className="w-28 h-8 bg-input border-border">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CURRENCY_PAIRS.map(config => (
+                            <SelectItem key={config.pair} value={config.pair}>{config.pair}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      pair.pair
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {isEditing ? (
+                      <Select
+                        value={draft.direction}
+                        onValueChange={(value) => setDraft({ ...draft, direction: value as FXTrade['direction'] })}
+                      >
+                        <SelectTrigger className="w-28 h-8 bg-input border-border">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="long">Long</SelectItem>
+                          <SelectItem value="short">Short</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant={trade.direction === 'long' ? 'secondary' : 'outline'}>
+                        {trade.direction === 'long' ? 'Long' : 'Short'}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {isEditing ? (
+                      <Input
+                        type="number"
+                        value={draft.notional}
+                        onChange={(e) => setDraft({ ...draft, notional: e.target.value })}
+                        min={0}
+                        className="w-36 h-8 bg-input border-border"
+                      />
+                    ) : (
+                      trade.notional.toLocaleString(undefined, { maximumFractionDigits: 0 })
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {isEditing ? (
+                      <Input
+                        type="date"
+                        value={draft.tradeDate}
+                        onChange={(e) => setDraft({ ...draft, tradeDate: e.target.value })}
+                        className="w-40 h-8 bg-input border-border"
+                      />
+                    ) : (
+                      format(trade.tradeDate, 'dd MMM yyyy')
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {isEditing ? (
+                      <Input
+                        type="date"
+                        value={draft.maturityDate}
+                        onChange={(e) => setDraft({ ...draft, maturityDate: e.target.value })}
+                        className="w-40 h-8 bg-input border-border"
+                      />
+                    ) : (
+                      format(trade.maturityDate, 'dd MMM yyyy')
+                    )}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{getMaturityBucket(trade, asOfDate)}</TableCell>
+                  <TableCell className="text-right font-mono">{valuation.shockedForward.toFixed(pair.decimals)}</TableCell>
+                  <TableCell className={`text-right font-medium ${pnl >= 0 ? 'text-profit' : 'text-loss'}`}>
+                    {formatReporting(reportPnL(pnl, trade))}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end space-x-1">
+                      {isEditing ? (
+                        <>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={saveEditing} title="Save">
+                            <Check className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={cancelEditing} title="Cancel">
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEditing(trade)} title="Edit">
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => deleteTrade(trade)} title="Delete">
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {pageTrades.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={10} className="text-center text-muted-foreground py-8">
+                  No trades match the current filters.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        {pageCount > 1 && (
+          <Pagination className="mt-4">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  onClick={(e) => { e.preventDefault(); setPage(Math.max(1, currentPage - 1)); }}
+                />
+              </PaginationItem>
+              {Array.from({ length: pageCount }, (_, i) => i + 1).map(n => (
+                <PaginationItem key={n}>
+                  <PaginationLink
+                    href="#"
+                    isActive={n === currentPage}
+                    onClick={(e) => { e.preventDefault(); setPage(n); }}
+                  >
+                    {n}
+                  </PaginationLink>
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  onClick={(e) => { e.preventDefault(); setPage(Math.min(pageCount, currentPage + 1)); }}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default Trades;
@@ -0,0 +1,15 @@
+// Simulation Worker: runs dashboard simulation jobs off the main thread and streams progress back
+
+import { runSimulationJob, type SimulationRequest, type SimulationResponse } from "@/lib/simulation-engine";
+
+const post = (message: SimulationResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  const { id, job } = event.data;
+  try {
+    const output = runSimulationJob(job, progress => post({ id, type: 'progress', progress }));
+    post({ id, type: 'result', output });
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};